@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { toPoolSortKey, toProjectSlug } from './utils/constants';
 
 export interface LeaderboardEntryAttrs {
   date: Date;
@@ -7,6 +8,7 @@ export interface LeaderboardEntryAttrs {
   rank: number;
   score: number;
   logo: string;
+  source?: string; // What produced the snapshot: api, regenerate, file:<name>, http:<url>
 }
 
 export interface LeaderboardEntryDoc extends LeaderboardEntryAttrs, Document {}
@@ -18,7 +20,8 @@ const LeaderboardEntrySchema = new Schema<LeaderboardEntryDoc>(
     name: { type: String, required: true },
     rank: { type: Number, required: true },
     score: { type: Number, required: true },
-    logo: { type: String, required: true },
+    logo: { type: String, default: '' },
+    source: String,
   },
   { timestamps: true }
 );
@@ -26,6 +29,47 @@ const LeaderboardEntrySchema = new Schema<LeaderboardEntryDoc>(
 // Compound index for efficient queries: date + index
 LeaderboardEntrySchema.index({ date: 1, index: -1 });
 
+// Snapshots that markets have resolved against can't be changed or deleted
+async function assertSnapshotsUnlocked(targets: { date: Date; index: number }[]) {
+  if (targets.length === 0) return;
+  const locked = await LeaderboardSnapshot.findOne({
+    lockedAt: { $exists: true },
+    $or: targets.map(t => ({ date: t.date, index: t.index })),
+  }).lean();
+  if (locked) {
+    throw new Error(
+      `Leaderboard snapshot ${locked.date.toISOString().split('T')[0]}:${locked.index} is locked - markets have resolved against it`
+    );
+  }
+}
+
+LeaderboardEntrySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  async function () {
+    const targets = await LeaderboardEntry.aggregate([
+      { $match: this.getFilter() },
+      { $group: { _id: { date: '$date', index: '$index' } } },
+    ]);
+    await assertSnapshotsUnlocked(targets.map(t => t._id));
+  }
+);
+
+// Adding entries to a locked snapshot changes it just as much
+LeaderboardEntrySchema.pre('insertMany', function (next, docs: LeaderboardEntryAttrs[] | LeaderboardEntryAttrs) {
+  const list = Array.isArray(docs) ? docs : [docs];
+  assertSnapshotsUnlocked(list.map(d => ({ date: d.date, index: d.index }))).then(() => next(), next);
+});
+
+LeaderboardEntrySchema.pre('save', async function () {
+  // An existing entry may be moved out of its snapshot, so check where it came from too
+  const targets = [{ date: this.date, index: this.index }];
+  if (!this.isNew) {
+    const stored = await LeaderboardEntry.findById(this._id).select('date index').lean();
+    if (stored) targets.push({ date: stored.date, index: stored.index });
+  }
+  await assertSnapshotsUnlocked(targets);
+});
+
 export interface MarketAttrs {
   type: 'top10' | 'h2h';
   projectName?: string;
@@ -33,19 +77,30 @@ export interface MarketAttrs {
   projectB?: string;
   lockTime: number;
   resolveTime: number;
+  question?: string; // Canonical question text hashed into questionHash (markets deployed through the API)
   questionHash: string;
   marketId: string;
   marketAddress: string;
+  chainId: number;
   phase?: number;
   status?: string;
   winner?: number;
   lastTxHash?: string;
+  roundId?: string;
   deploymentDate?: Date;
   deploymentIndex?: number;
+  // Leaderboard snapshot the market was resolved against
+  resolvedSnapshotDate?: Date;
+  resolvedSnapshotIndex?: number;
+  resolvedSnapshotHash?: string;
+  resolvedAt?: Date;
   // Cache fields
   poolA?: string; // BigInt as string for precision
   poolB?: string;
+  totalPoolSort?: string; // poolA + poolB as toPoolSortKey, for sorting and minPool in queries
+  lastActivityAt?: Date; // Last pool or phase change (epoch 0 before the first sync)
   lastSyncedAt?: Date;
+  syncedBlock?: number; // Block the cached state reflects (events after it are applied by the indexer)
 }
 
 export interface MarketDoc extends MarketAttrs, Document {}
@@ -58,25 +113,41 @@ const MarketSchema = new Schema<MarketDoc>(
     projectB: String,
     lockTime: { type: Number, required: true },
     resolveTime: { type: Number, required: true },
-    questionHash: { type: String, required: true },
+    question: String,
+    questionHash: { type: String, required: true, index: true },
     marketId: { type: String, required: true },
-    marketAddress: { type: String, required: true, unique: true },
+    marketAddress: { type: String, required: true },
+    chainId: { type: Number, required: true, index: true },
     phase: { type: Number, default: 0 },
     status: { type: String, default: 'trading' },
     winner: Number,
     lastTxHash: String,
+    roundId: { type: String, index: true },
     deploymentDate: { type: Date, index: true },
     deploymentIndex: { type: Number, index: true },
+    resolvedSnapshotDate: Date,
+    resolvedSnapshotIndex: Number,
+    resolvedSnapshotHash: String,
+    resolvedAt: Date,
     // Cache fields
     poolA: String,
     poolB: String,
+    totalPoolSort: { type: String, default: () => toPoolSortKey(0n) },
+    lastActivityAt: { type: Date, default: () => new Date(0) },
     lastSyncedAt: Date,
+    syncedBlock: Number,
   },
   { timestamps: true }
 );
 
+// The same address can exist on several chains
+MarketSchema.index({ marketAddress: 1, chainId: 1 }, { unique: true });
 // Compound index for finding latest deployment
 MarketSchema.index({ deploymentDate: -1, deploymentIndex: -1 });
+// Market listing sorts (address breaks ties)
+MarketSchema.index({ roundId: 1, lockTime: 1, marketAddress: 1 });
+MarketSchema.index({ roundId: 1, totalPoolSort: 1, marketAddress: 1 });
+MarketSchema.index({ roundId: 1, lastActivityAt: 1, marketAddress: 1 });
 
 export const LeaderboardEntry: Model<LeaderboardEntryDoc> = mongoose.model(
   'LeaderboardEntry',
@@ -85,33 +156,95 @@ export const LeaderboardEntry: Model<LeaderboardEntryDoc> = mongoose.model(
 
 export const Market: Model<MarketDoc> = mongoose.model('Market', MarketSchema);
 
+// One per stored leaderboard (date + index): content hash, source and resolution lock
+export interface LeaderboardSnapshotAttrs {
+  date: Date;
+  index: number;
+  hash: string; // sha256 over the canonical [rank, name, score] list
+  entryCount: number;
+  source?: string;
+  lockedAt?: Date; // Set once a market resolves against the snapshot
+  lockedBy: string[]; // Market addresses resolved against it
+}
+
+export interface LeaderboardSnapshotDoc extends LeaderboardSnapshotAttrs, Document {
+  createdAt: Date;
+}
+
+const LeaderboardSnapshotSchema = new Schema<LeaderboardSnapshotDoc>(
+  {
+    date: { type: Date, required: true },
+    index: { type: Number, required: true },
+    hash: { type: String, required: true, index: true },
+    entryCount: { type: Number, required: true },
+    source: String,
+    lockedAt: Date,
+    lockedBy: { type: [String], default: [] },
+  },
+  { timestamps: true }
+);
+
+// Also serves resolution, which picks the resolve day's highest index written before resolveTime
+LeaderboardSnapshotSchema.index({ date: 1, index: 1 }, { unique: true });
+
+export const LeaderboardSnapshot: Model<LeaderboardSnapshotDoc> = mongoose.model(
+  'LeaderboardSnapshot',
+  LeaderboardSnapshotSchema
+);
+
+// Sequences that must be allocated atomically (e.g. snapshot indexes per date)
+export interface CounterAttrs {
+  key: string;
+  value: number; // Next value to hand out
+}
+
+export interface CounterDoc extends CounterAttrs, Document {}
+
+const CounterSchema = new Schema<CounterDoc>({
+  key: { type: String, required: true, unique: true },
+  value: { type: Number, required: true },
+});
+
+export const Counter: Model<CounterDoc> = mongoose.model('Counter', CounterSchema);
+
 export interface ContractAttrs {
   type: string;
   address: string;
+  chainId: number;
   metadata?: Record<string, unknown>;
+  deploymentDate?: Date;
+  deploymentIndex?: number;
 }
 
 export interface ContractDoc extends ContractAttrs, Document {}
 
 const ContractSchema = new Schema<ContractDoc>(
   {
-    type: { type: String, required: true, unique: true },
+    type: { type: String, required: true },
     address: { type: String, required: true },
+    chainId: { type: Number, required: true },
     metadata: Schema.Types.Mixed,
+    deploymentDate: Date,
+    deploymentIndex: Number,
   },
   { timestamps: true }
 );
 
+// One contract of each type per chain
+ContractSchema.index({ type: 1, chainId: 1 }, { unique: true });
+
 export const Contract: Model<ContractDoc> = mongoose.model('Contract', ContractSchema);
 
 // User Investment Cache
 export interface UserInvestmentAttrs {
   marketAddress: string;
   userAddress: string;
+  chainId: number;
   aClaims: string; // BigInt as string
   bClaims: string;
   redeemed: boolean;
   lastSyncedAt: Date;
+  syncedBlock?: number; // Block the cached state reflects
 }
 
 export interface UserInvestmentDoc extends UserInvestmentAttrs, Document {}
@@ -120,16 +253,18 @@ const UserInvestmentSchema = new Schema<UserInvestmentDoc>(
   {
     marketAddress: { type: String, required: true, index: true },
     userAddress: { type: String, required: true, index: true },
+    chainId: { type: Number, required: true },
     aClaims: { type: String, required: true, default: '0' },
     bClaims: { type: String, required: true, default: '0' },
     redeemed: { type: Boolean, required: true, default: false },
     lastSyncedAt: { type: Date, required: true, default: Date.now },
+    syncedBlock: Number,
   },
   { timestamps: true }
 );
 
 // Compound index for efficient lookups
-UserInvestmentSchema.index({ marketAddress: 1, userAddress: 1 }, { unique: true });
+UserInvestmentSchema.index({ marketAddress: 1, userAddress: 1, chainId: 1 }, { unique: true });
 
 export const UserInvestment: Model<UserInvestmentDoc> = mongoose.model(
   'UserInvestment',
@@ -139,26 +274,467 @@ export const UserInvestment: Model<UserInvestmentDoc> = mongoose.model(
 // User Balance Cache
 export interface UserBalanceAttrs {
   userAddress: string;
+  chainId: number;
   balance: string; // BigInt as string
   lastSyncedAt: Date;
+  syncedBlock?: number; // Block the cached balance reflects
 }
 
 export interface UserBalanceDoc extends UserBalanceAttrs, Document {}
 
 const UserBalanceSchema = new Schema<UserBalanceDoc>(
   {
-    userAddress: { type: String, required: true, unique: true, index: true },
+    userAddress: { type: String, required: true },
+    chainId: { type: Number, required: true },
     balance: { type: String, required: true, default: '0' },
     lastSyncedAt: { type: Date, required: true, default: Date.now },
+    syncedBlock: Number,
   },
   { timestamps: true }
 );
 
+// Stake token balance per chain
+UserBalanceSchema.index({ userAddress: 1, chainId: 1 }, { unique: true });
+
 export const UserBalance: Model<UserBalanceDoc> = mongoose.model(
   'UserBalance',
   UserBalanceSchema
 );
 
+// Indexed on-chain events (market deposits/redeems/close/resolve and stake token transfers)
+export interface MarketEventAttrs {
+  chainId: number;
+  address: string; // Emitting contract
+  event: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  userAddress?: string;
+  args: Record<string, unknown>; // BigInts as strings
+}
+
+export interface MarketEventDoc extends MarketEventAttrs, Document {}
+
+const MarketEventSchema = new Schema<MarketEventDoc>(
+  {
+    chainId: { type: Number, required: true },
+    address: { type: String, required: true, index: true },
+    event: { type: String, required: true },
+    blockNumber: { type: Number, required: true, index: true },
+    blockHash: { type: String, required: true },
+    transactionHash: { type: String, required: true },
+    logIndex: { type: Number, required: true },
+    userAddress: { type: String, index: true },
+    args: { type: Schema.Types.Mixed, default: {} },
+  },
+  { timestamps: true }
+);
+
+// A log is uniquely identified by its transaction and position
+MarketEventSchema.index({ transactionHash: 1, logIndex: 1, chainId: 1 }, { unique: true });
+
+export const MarketEvent: Model<MarketEventDoc> = mongoose.model(
+  'MarketEvent',
+  MarketEventSchema
+);
+
+// Indexer checkpoint (last fully indexed block)
+export interface IndexerCheckpointAttrs {
+  key: string;
+  blockNumber: number;
+}
+
+export interface IndexerCheckpointDoc extends IndexerCheckpointAttrs, Document {}
+
+const IndexerCheckpointSchema = new Schema<IndexerCheckpointDoc>(
+  {
+    key: { type: String, required: true, unique: true },
+    blockNumber: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+export const IndexerCheckpoint: Model<IndexerCheckpointDoc> = mongoose.model(
+  'IndexerCheckpoint',
+  IndexerCheckpointSchema
+);
+
+// Scheduled market lifecycle jobs (close at lockTime, resolve at resolveTime)
+export interface ScheduledJobAttrs {
+  marketAddress: string;
+  chainId: number;
+  action: 'close' | 'resolve';
+  runAt: number; // Unix seconds, compared against the latest block timestamp
+  status: 'pending' | 'running' | 'submitted' | 'done' | 'failed';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  result?: string;
+  txId?: string; // PendingTransaction id while submitted
+  txHash?: string;
+  completedAt?: Date;
+}
+
+export interface ScheduledJobDoc extends ScheduledJobAttrs, Document {}
+
+const ScheduledJobSchema = new Schema<ScheduledJobDoc>(
+  {
+    marketAddress: { type: String, required: true },
+    chainId: { type: Number, required: true },
+    action: { type: String, enum: ['close', 'resolve'], required: true },
+    runAt: { type: Number, required: true },
+    status: { type: String, enum: ['pending', 'running', 'submitted', 'done', 'failed'], default: 'pending', index: true },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lastError: String,
+    result: String,
+    txId: String,
+    txHash: String,
+    completedAt: Date,
+  },
+  { timestamps: true }
+);
+
+// One job per market and action
+ScheduledJobSchema.index({ marketAddress: 1, action: 1, chainId: 1 }, { unique: true });
+ScheduledJobSchema.index({ status: 1, runAt: 1 });
+
+export const ScheduledJob: Model<ScheduledJobDoc> = mongoose.model(
+  'ScheduledJob',
+  ScheduledJobSchema
+);
+
+// Operators allowed to call protected routes, with their roles
+export interface OperatorAttrs {
+  address: string; // Lowercase
+  roles: string[];
+  label?: string;
+  seeded?: boolean; // Managed by OPERATOR_ROLES
+}
+
+export interface OperatorDoc extends OperatorAttrs, Document {}
+
+const OperatorSchema = new Schema<OperatorDoc>(
+  {
+    address: { type: String, required: true, unique: true, lowercase: true },
+    roles: { type: [String], default: [] },
+    label: String,
+    seeded: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+export const Operator: Model<OperatorDoc> = mongoose.model('Operator', OperatorSchema);
+
+// Pending wallet sign-in challenges (expire automatically)
+export interface AuthChallengeAttrs {
+  address: string; // Lowercase
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export interface AuthChallengeDoc extends AuthChallengeAttrs, Document {}
+
+const AuthChallengeSchema = new Schema<AuthChallengeDoc>(
+  {
+    address: { type: String, required: true, index: true, lowercase: true },
+    nonce: { type: String, required: true, unique: true },
+    issuedAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  { timestamps: true }
+);
+
+export const AuthChallenge: Model<AuthChallengeDoc> = mongoose.model(
+  'AuthChallenge',
+  AuthChallengeSchema
+);
+
+// Operator sessions, looked up by token hash (expire automatically)
+export interface AuthSessionAttrs {
+  tokenHash: string;
+  address: string; // Lowercase
+  expiresAt: Date;
+}
+
+export interface AuthSessionDoc extends AuthSessionAttrs, Document {}
+
+const AuthSessionSchema = new Schema<AuthSessionDoc>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    address: { type: String, required: true, index: true, lowercase: true },
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  { timestamps: true }
+);
+
+export const AuthSession: Model<AuthSessionDoc> = mongoose.model(
+  'AuthSession',
+  AuthSessionSchema
+);
+
+// Faucet claim history (used for cooldowns and the daily budget)
+export interface FaucetClaimAttrs {
+  address: string; // Lowercase
+  chainId: number;
+  ip: string;
+  amount: number; // Tokens
+  status: 'pending' | 'sent' | 'failed';
+  txId?: string; // PendingTransaction id
+  txHash?: string;
+  error?: string;
+}
+
+export interface FaucetClaimDoc extends FaucetClaimAttrs, Document {
+  createdAt: Date;
+}
+
+const FaucetClaimSchema = new Schema<FaucetClaimDoc>(
+  {
+    address: { type: String, required: true, lowercase: true },
+    chainId: { type: Number, required: true },
+    ip: { type: String, required: true },
+    amount: { type: Number, required: true },
+    status: { type: String, enum: ['pending', 'sent', 'failed'], default: 'pending' },
+    txId: String,
+    txHash: String,
+    error: String,
+  },
+  { timestamps: true }
+);
+
+FaucetClaimSchema.index({ address: 1, createdAt: -1 });
+FaucetClaimSchema.index({ ip: 1, createdAt: -1 });
+FaucetClaimSchema.index({ createdAt: -1 });
+
+export const FaucetClaim: Model<FaucetClaimDoc> = mongoose.model(
+  'FaucetClaim',
+  FaucetClaimSchema
+);
+
+// Atomic faucet reservations: one document per address/IP cooldown and per chain and UTC day budget
+export interface FaucetReservationAttrs {
+  chainId: number;
+  key: string; // address:<lowercase address>, ip:<ip> or budget:<YYYY-MM-DD>
+  claimId?: string; // Claim holding an address/IP cooldown
+  amount: number; // Tokens reserved from the daily budget
+  until: Date; // When the reservation lapses
+}
+
+export interface FaucetReservationDoc extends FaucetReservationAttrs, Document {}
+
+const FaucetReservationSchema = new Schema<FaucetReservationDoc>({
+  chainId: { type: Number, required: true },
+  key: { type: String, required: true },
+  claimId: String,
+  amount: { type: Number, default: 0 },
+  until: { type: Date, required: true, expires: 0 },
+});
+
+// A second reservation of a key that hasn't lapsed fails with a duplicate key error
+FaucetReservationSchema.index({ chainId: 1, key: 1 }, { unique: true });
+
+export const FaucetReservation: Model<FaucetReservationDoc> = mongoose.model(
+  'FaucetReservation',
+  FaucetReservationSchema
+);
+
+// Mined transactions already refreshed through POST /api/cache/update, so replays don't read the chain again
+export interface ProcessedReceiptAttrs {
+  chainId: number;
+  txHash: string; // Lowercase
+  updated: string[]; // Entities the refresh updated
+}
+
+export interface ProcessedReceiptDoc extends ProcessedReceiptAttrs, Document {}
+
+const ProcessedReceiptSchema = new Schema<ProcessedReceiptDoc>(
+  {
+    chainId: { type: Number, required: true },
+    txHash: { type: String, required: true },
+    updated: { type: [String], default: [] },
+  },
+  { timestamps: true }
+);
+
+ProcessedReceiptSchema.index({ chainId: 1, txHash: 1 }, { unique: true });
+
+export const ProcessedReceipt: Model<ProcessedReceiptDoc> = mongoose.model(
+  'ProcessedReceipt',
+  ProcessedReceiptSchema
+);
+
+// Transactions sent by the backend wallets (faucet, admin), tracked until mined
+export interface PendingTransactionAttrs {
+  signer: string; // Signer name (faucet, admin)
+  chainId: number;
+  from: string;
+  kind: string; // What the transaction does, used to run follow-up handlers
+  to: string;
+  data: string;
+  value: string; // BigInt as string
+  status: 'queued' | 'sent' | 'mined' | 'failed';
+  nonce?: number;
+  hash?: string; // Latest (or mined) hash
+  hashes: string[]; // Every hash broadcast for this nonce, including speed-ups
+  rawTransaction?: string; // Signed transaction behind `hash`, broadcast again after a restart
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  replacements: number;
+  sentAt?: Date;
+  minedAt?: Date;
+  blockNumber?: number;
+  error?: string;
+  context?: Record<string, unknown>;
+}
+
+export interface PendingTransactionDoc extends PendingTransactionAttrs, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PendingTransactionSchema = new Schema<PendingTransactionDoc>(
+  {
+    signer: { type: String, required: true },
+    chainId: { type: Number, required: true, index: true },
+    from: { type: String, required: true, lowercase: true },
+    kind: { type: String, required: true },
+    to: { type: String, required: true },
+    data: { type: String, default: '0x' },
+    value: { type: String, default: '0' },
+    status: { type: String, enum: ['queued', 'sent', 'mined', 'failed'], default: 'queued', index: true },
+    nonce: Number,
+    hash: { type: String, index: true },
+    hashes: { type: [String], default: [] },
+    rawTransaction: String,
+    gasLimit: String,
+    maxFeePerGas: String,
+    maxPriorityFeePerGas: String,
+    gasPrice: String,
+    replacements: { type: Number, default: 0 },
+    sentAt: Date,
+    minedAt: Date,
+    blockNumber: Number,
+    error: String,
+    context: Schema.Types.Mixed,
+  },
+  { timestamps: true }
+);
+
+PendingTransactionSchema.index({ chainId: 1, from: 1, nonce: -1 });
+
+export const PendingTransaction: Model<PendingTransactionDoc> = mongoose.model(
+  'PendingTransaction',
+  PendingTransactionSchema
+);
+
+export interface MarketPoolSnapshotAttrs {
+  chainId: number;
+  marketAddress: string;
+  timestamp: Date;
+  poolA: string;
+  poolB: string;
+  phase: number;
+  resolution: 'raw' | '1h'; // raw = one per sync/event, 1h = downsampled by the retention job
+}
+
+export interface MarketPoolSnapshotDoc extends MarketPoolSnapshotAttrs, Document {}
+
+const MarketPoolSnapshotSchema = new Schema<MarketPoolSnapshotDoc>(
+  {
+    chainId: { type: Number, required: true },
+    marketAddress: { type: String, required: true, lowercase: true },
+    timestamp: { type: Date, required: true },
+    poolA: { type: String, required: true },
+    poolB: { type: String, required: true },
+    phase: { type: Number, required: true },
+    resolution: { type: String, enum: ['raw', '1h'], default: 'raw' },
+  }
+);
+
+MarketPoolSnapshotSchema.index({ chainId: 1, marketAddress: 1, timestamp: 1 });
+MarketPoolSnapshotSchema.index({ resolution: 1, timestamp: 1 });
+
+export const MarketPoolSnapshot: Model<MarketPoolSnapshotDoc> = mongoose.model(
+  'MarketPoolSnapshot',
+  MarketPoolSnapshotSchema
+);
+
+export interface ProjectAttrs {
+  slug: string;
+  name: string; // Display name used in leaderboard entries and markets
+  aliases: string[]; // Alternative spellings, stored as slugs
+  logo?: string;
+  category?: string;
+}
+
+export interface ProjectDoc extends ProjectAttrs, Document {}
+
+const ProjectSchema = new Schema<ProjectDoc>(
+  {
+    slug: { type: String, required: true, unique: true, lowercase: true },
+    name: { type: String, required: true, unique: true },
+    aliases: { type: [String], default: [], index: true },
+    logo: String,
+    category: { type: String, index: true },
+  },
+  { timestamps: true }
+);
+
+export const Project: Model<ProjectDoc> = mongoose.model('Project', ProjectSchema);
+
+// A set of markets deployed together (one import or factory deployment)
+export type RoundStatus = 'open' | 'locked' | 'resolved' | 'archived';
+
+export interface RoundAttrs {
+  roundId: string; // "YYYY-MM-DD-<deploymentIndex>"
+  chainId: number; // Rounds are per chain; deployment indexes of a day are shared by all chains
+  deploymentDate: Date;
+  deploymentIndex: number;
+  status: RoundStatus;
+  // Earliest and latest lockTime/resolveTime of the round's markets (Unix seconds)
+  lockStart?: number;
+  lockEnd?: number;
+  resolveStart?: number;
+  resolveEnd?: number;
+  // Leaderboard snapshot the round's markets resolved against
+  snapshotDate?: Date;
+  snapshotIndex?: number;
+  snapshotHash?: string;
+  archivedAt?: Date;
+  createdAt?: Date;
+}
+
+export interface RoundDoc extends RoundAttrs, Document {}
+
+const RoundSchema = new Schema<RoundDoc>(
+  {
+    roundId: { type: String, required: true, unique: true },
+    chainId: { type: Number, required: true },
+    deploymentDate: { type: Date, required: true },
+    deploymentIndex: { type: Number, required: true },
+    status: { type: String, enum: ['open', 'locked', 'resolved', 'archived'], default: 'open', index: true },
+    lockStart: Number,
+    lockEnd: Number,
+    resolveStart: Number,
+    resolveEnd: Number,
+    snapshotDate: Date,
+    snapshotIndex: Number,
+    snapshotHash: String,
+    archivedAt: Date,
+  },
+  { timestamps: true }
+);
+
+RoundSchema.index({ deploymentDate: -1, deploymentIndex: -1 });
+RoundSchema.index({ chainId: 1, deploymentDate: -1, deploymentIndex: -1 });
+
+export const Round: Model<RoundDoc> = mongoose.model('Round', RoundSchema);
+
 export async function connectToDatabase(uri: string) {
   await mongoose.connect(uri, {
     dbName: process.env.MONGO_DB || 'mindshare',
@@ -167,7 +743,7 @@ export async function connectToDatabase(uri: string) {
 }
 
 // Full 80-project leaderboard
-const FULL_LEADERBOARD: Array<{ name: string; rank: number; score: number; logo: string }> = [
+export const FULL_LEADERBOARD: Array<{ name: string; rank: number; score: number; logo: string }> = [
   {"name": "Ethereum", "rank": 1, "score": 9500, "logo": "https://assets.coingecko.com/coins/images/279/small/ethereum.png"},
   {"name": "Bitcoin", "rank": 2, "score": 9200, "logo": "https://assets.coingecko.com/coins/images/1/small/bitcoin.png"},
   {"name": "Uniswap", "rank": 3, "score": 8800, "logo": "https://assets.coingecko.com/coins/images/12504/small/uniswap-uni.png"},
@@ -256,7 +832,7 @@ function getDateOnly(date: Date): Date {
   return d;
 }
 
-const DEFAULT_MARKETS: MarketAttrs[] = [
+const DEFAULT_MARKETS: Omit<MarketAttrs, 'chainId'>[] = [
   {
     type: 'top10',
     projectName: 'Ethereum',
@@ -383,6 +959,7 @@ export async function ensureSeedData() {
       return {
         ...entry,
         rank,
+        score: FULL_LEADERBOARD[rank - 1].score, // Scores follow rank
         date: yesterday,
         index: 0,
       };
@@ -391,6 +968,18 @@ export async function ensureSeedData() {
     console.log(`Seeded leaderboard for ${yesterday.toISOString().split('T')[0]} (index 0, ${yesterdayEntries.length} projects)`);
   }
 
+  // Backfill the project registry from the seeded leaderboard (existing projects are left alone)
+  const projectResult = await Project.bulkWrite(FULL_LEADERBOARD.map(entry => ({
+    updateOne: {
+      filter: { slug: toProjectSlug(entry.name) },
+      update: { $setOnInsert: { slug: toProjectSlug(entry.name), name: entry.name, logo: entry.logo, aliases: [] } },
+      upsert: true,
+    },
+  })));
+  if (projectResult.upsertedCount > 0) {
+    console.log(`Seeded ${projectResult.upsertedCount} projects into the registry`);
+  }
+
   // Don't seed default markets - they'll be imported via deployment script
   // This prevents showing old market addresses with existing deposits
 }
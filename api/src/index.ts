@@ -2,7 +2,6 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { ethers } from 'ethers';
 import { connectToDatabase, ensureSeedData } from './db';
 import leaderboardRoutes from './routes/leaderboard';
 import marketsRoutes from './routes/markets';
@@ -11,22 +10,49 @@ import cacheRoutes from './routes/cache';
 import contractsRoutes from './routes/contracts';
 import faucetRoutes from './routes/faucet';
 import adminRoutes from './routes/admin';
+import authRoutes from './routes/auth';
+import txRoutes from './routes/tx';
+import streamRoutes from './routes/stream';
+import projectsRoutes from './routes/projects';
+import roundsRoutes from './routes/rounds';
+import chainsRoutes from './routes/chains';
+import metricsRoutes from './routes/metrics';
 import { syncMarketPhases } from './utils/sync';
+import { startIndexer } from './utils/indexer';
+import { startScheduler } from './utils/scheduler';
+import { ensureOperators } from './utils/auth';
+import { startTransactionManager } from './utils/txManager';
+import { ensurePoolSnapshotChainIds, startHistoryRetention } from './utils/history';
+import { startIngestion } from './utils/ingestion';
+import { ensureSnapshotMetadata } from './utils/leaderboard';
+import { ensureRounds } from './utils/rounds';
+import { ensureMarketSortFields } from './utils/markets';
+import { ensureChainIds, getChains, getProvider } from './utils/chains';
+import { recordHttpMetrics } from './utils/metrics';
 
 dotenv.config();
 
 const app = express();
+
+// Needed behind a reverse proxy so req.ip is the client address (faucet limits are per IP)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === 'true' || trustProxy);
+}
 app.use(cors());
+// Before the body parser, so malformed JSON rejected with 400 is counted too
+app.use(recordHttpMetrics);
 app.use(express.json());
 
 const PORT = process.env.PORT || 3001;
-const RPC_URL = process.env.RPC_URL || 'https://sepolia.base.org';
 const ENABLE_CACHE = process.env.ENABLE_CACHE === 'true';
-const provider = new ethers.JsonRpcProvider(RPC_URL);
+const ENABLE_INDEXER = process.env.ENABLE_INDEXER === 'true';
+const ENABLE_SCHEDULER = process.env.ENABLE_SCHEDULER === 'true';
+const ENABLE_INGESTION = process.env.ENABLE_INGESTION === 'true';
 
-// Make provider and config available to routes
-app.set('provider', provider);
+// Make config available to routes (providers come from the chain registry)
 app.set('ENABLE_CACHE', ENABLE_CACHE);
+app.set('ENABLE_INDEXER', ENABLE_INDEXER);
 
 // Register routes
 app.use('/api/leaderboard', leaderboardRoutes);
@@ -36,12 +62,43 @@ app.use('/api/cache', cacheRoutes);
 app.use('/api/contracts', contractsRoutes);
 app.use('/api/faucet', faucetRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/tx', txRoutes);
+app.use('/api/stream', streamRoutes);
+app.use('/api/projects', projectsRoutes);
+app.use('/api/rounds', roundsRoutes);
+app.use('/api/chains', chainsRoutes);
+app.use('/metrics', metricsRoutes);
 
 const startServer = async () => {
   const mongoUri = process.env.MONGO_URI || 'mongodb://127.0.0.1:27017/mindshare';
   await connectToDatabase(mongoUri);
   await ensureSeedData();
-  await syncMarketPhases(provider);
+  await ensureChainIds();
+  await ensurePoolSnapshotChainIds();
+  await ensureSnapshotMetadata();
+  await ensureRounds();
+  await ensureMarketSortFields();
+  await ensureOperators();
+  // Each chain gets its own transaction queue, indexer and scheduler
+  for (const chain of getChains()) {
+    const provider = getProvider(chain.chainId);
+    console.log(`⛓️  Chain ${chain.chainId} (${chain.name})`);
+    await startTransactionManager(provider);
+    if (ENABLE_INDEXER) {
+      // Indexer keeps the cache up to date from chain events
+      await startIndexer(provider);
+    } else {
+      await syncMarketPhases(provider);
+    }
+    if (ENABLE_SCHEDULER) {
+      await startScheduler(provider, ENABLE_CACHE);
+    }
+  }
+  if (ENABLE_INGESTION) {
+    startIngestion();
+  }
+  startHistoryRetention();
 
   app.listen(PORT, () => {
     console.log(`API server running on http://localhost:${PORT}`);
@@ -1,11 +1,66 @@
 import { Router } from 'express';
 import { ethers } from 'ethers';
-import { Market, LeaderboardEntry } from '../db';
-import { MARKET_ADMIN_ABI, phaseToStatus, getDateOnly } from '../utils/constants';
-import { syncMarketPhases, syncMarketToCache } from '../utils/sync';
+import { Market, LeaderboardEntry, ScheduledJob, Operator, Round } from '../db';
+import { phaseToStatus, getDateOnly, toPoolSortKey } from '../utils/constants';
+import { syncMarketPhases } from '../utils/sync';
+import { resolveProjectNames } from '../utils/projects';
+import { getSnapshot, saveLeaderboardSnapshot } from '../utils/leaderboard';
+import { SUGGESTION_STRATEGIES, buildSuggestions } from '../utils/suggestions';
+import { getIndexerStatus, runIndexer } from '../utils/indexer';
+import { describeMarket, resolveDueMarkets } from '../utils/resolution';
+import { closeMarket, CloseResult } from '../utils/lifecycle';
+import { getSchedule, runScheduler } from '../utils/scheduler';
+import { requireRole, ROLES } from '../utils/auth';
+import { isSignerConfigured } from '../utils/txManager';
+import { getIngestionStatus, runIngestion } from '../utils/ingestion';
+import { deployMarkets } from '../utils/deployment';
+import { archiveRounds, createRound, refreshRounds } from '../utils/rounds';
+import { getProvider, getRequestChainId, getRpcStatus } from '../utils/chains';
+import { closeAllResults } from '../utils/metrics';
 
 const router = Router();
 
+// Every admin route requires an admin session
+router.use(requireRole('admin'));
+
+// List operators and their roles
+router.get('/operators', async (req, res) => {
+  try {
+    const operators = await Operator.find().sort({ address: 1 }).lean();
+    res.json(operators.map(o => ({ address: o.address, roles: o.roles, label: o.label })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Set an operator's roles (empty roles removes the operator)
+router.put('/operators/:address', async (req, res) => {
+  const { address } = req.params;
+  const { roles, label } = req.body;
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (!Array.isArray(roles) || roles.some((r: string) => !(ROLES as readonly string[]).includes(r))) {
+    return res.status(400).json({ error: `roles must be an array of ${ROLES.join(', ')}` });
+  }
+
+  try {
+    if (roles.length === 0) {
+      await Operator.deleteOne({ address: address.toLowerCase() });
+      return res.json({ success: true, address: address.toLowerCase(), roles: [] });
+    }
+    const operator = await Operator.findOneAndUpdate(
+      { address: address.toLowerCase() },
+      { roles, ...(label !== undefined ? { label } : {}) },
+      { upsert: true, new: true }
+    );
+    console.log(`🔑 ${res.locals.operator.address} set roles for ${operator.address}: ${roles.join(', ')}`);
+    res.json({ success: true, address: operator.address, roles: operator.roles, label: operator.label });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Regenerate leaderboard (randomize and save new snapshot)
 router.post('/regenerate-leaderboard', async (req, res) => {
   try {
@@ -35,30 +90,23 @@ router.post('/regenerate-leaderboard', async (req, res) => {
     
     // Assign new ranks and update scores based on new standings
     // Score formula: 10000 - (rank - 1) * 250 (gives rank 1 = 10000, rank 2 = 9750, etc.)
-    const newEntries = randomized.map((entry: any, index: number) => {
+    const newEntries = randomized.map((entry, index) => {
       const newRank = index + 1;
       const newScore = 10000 - (newRank - 1) * 250;
       return {
-        ...entry,
-        _id: undefined,
+        name: entry.name,
+        logo: entry.logo,
         rank: newRank,
         score: newScore,
-        date: today,
-        index: maxIndex + 1,
       };
     });
     
     // Save new snapshot with incremented index
-    const nextIndex = maxIndex + 1;
-    await LeaderboardEntry.deleteMany({ date: today, index: nextIndex });
-    
-    await LeaderboardEntry.insertMany(newEntries);
+    const saved = await saveLeaderboardSnapshot(today, newEntries, 'regenerate');
     
     res.json({
       success: true,
-      date: today.toISOString().split('T')[0],
-      index: nextIndex,
-      count: newEntries.length,
+      ...saved,
       top10: randomized.slice(0, 10).map((e: any) => e.name)
     });
   } catch (error: any) {
@@ -70,94 +118,105 @@ router.post('/regenerate-leaderboard', async (req, res) => {
   }
 });
 
-// Force sync phases
+// Force sync phases of one chain's markets (?chainId= or body.chainId, default chain otherwise)
 router.post('/sync-phases', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
   try {
-    const provider = req.app.get('provider') as ethers.JsonRpcProvider;
-    await syncMarketPhases(provider);
-    res.json({ success: true, message: 'Market phases synced' });
+    await syncMarketPhases(getProvider(chainId));
+    res.json({ success: true, chainId, message: 'Market phases synced' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Configured ingestion sources and the outcome of their last run
+router.get('/ingestion', (req, res) => {
+  try {
+    res.json(getIngestionStatus());
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Close all markets
+// Run every configured ingestion source now
+router.post('/ingestion/run', async (req, res) => {
+  try {
+    const runs = await runIngestion();
+    res.json({ success: true, runs });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Per-endpoint RPC health: circuit state, request and failure counts, latency and error rate
+router.get('/rpc', (req, res) => {
+  try {
+    res.json(getRpcStatus());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Event indexer status (checkpoint vs chain head)
+router.get('/indexer', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    res.json(await getIndexerStatus(getProvider(chainId)));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run one indexer pass immediately
+router.post('/indexer/run', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    const provider = getProvider(chainId);
+    await runIndexer(provider);
+    res.json({ success: true, ...(await getIndexerStatus(provider)) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Close all markets of a chain
 router.post('/close-all', async (req, res) => {
-  const adminKey = process.env.ADMIN_PRIVATE_KEY;
-  if (!adminKey) {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  if (!isSignerConfigured('admin', chainId)) {
     return res.status(500).json({ error: 'ADMIN_PRIVATE_KEY not configured' });
   }
 
   try {
-    const provider = req.app.get('provider') as ethers.JsonRpcProvider;
+    const provider = getProvider(chainId);
     const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-    const wallet = new ethers.Wallet(adminKey, provider);
-    const markets = await Market.find();
+    const markets = await Market.find({ chainId });
     const block = await provider.getBlock('latest');
     const currentTime = block?.timestamp ?? Math.floor(Date.now() / 1000);
 
-    console.log(`🔒 Attempting to close markets (current time: ${currentTime})`);
+    console.log(`🔒 Attempting to close markets on chain ${chainId} (current time: ${currentTime})`);
 
-    const results: { marketAddress: string; phase: number; status: string; lockTime?: number; canClose?: boolean }[] = [];
+    const results: CloseResult[] = [];
 
     for (const market of markets) {
-      const marketName = market.type === 'top10' ? market.projectName : `${market.projectA} vs ${market.projectB}`;
       try {
-        const contract = new ethers.Contract(market.marketAddress, MARKET_ADMIN_ABI, wallet);
-        const phase: number = Number(await contract.phase());
-        const lockTime: number = Number(await contract.lockTime());
-
-        if (phase !== 0) {
-          results.push({ 
-            marketAddress: market.marketAddress, 
-            phase, 
-            status: 'already-closed-or-not-trading',
-            lockTime 
-          });
-          console.log(`  ⏭️  ${marketName}: Already in phase ${phase}`);
-          continue;
-        }
-
-        // Check if lockTime has passed
-        if (currentTime < lockTime) {
-          const waitSeconds = lockTime - currentTime;
-          const waitHours = Math.floor(waitSeconds / 3600);
-          const waitMinutes = Math.floor((waitSeconds % 3600) / 60);
-          results.push({ 
-            marketAddress: market.marketAddress, 
-            phase, 
-            status: `not-ready (lockTime in ${waitHours}h ${waitMinutes}m)`,
-            lockTime,
-            canClose: false
-          });
-          console.log(`  ⏳ ${marketName}: Not ready (lockTime: ${new Date(lockTime * 1000).toISOString()})`);
-          continue;
-        }
-
-        // Close the market
-        console.log(`  🔒 Closing ${marketName}...`);
-        const tx = await contract.close();
-        await tx.wait();
-        market.phase = 1;
-        market.status = 'locked';
-        market.lastTxHash = tx.hash;
-        await market.save();
-        
-        // Update cache if enabled
-        if (ENABLE_CACHE) {
-          await syncMarketToCache(market.marketAddress, provider);
-        }
-        
-        results.push({ 
-          marketAddress: market.marketAddress, 
-          phase: 1, 
-          status: `closed (${tx.hash})`,
-          lockTime,
-          canClose: true
-        });
-        console.log(`  ✅ ${marketName}: Closed successfully`);
+        results.push(await closeMarket(market, provider, { currentTime, enableCache: ENABLE_CACHE }));
       } catch (error: any) {
-        console.error(`  ❌ Error closing ${marketName}:`, error.message || error);
+        console.error(`  ❌ Error closing ${describeMarket(market)}:`, error.message || error);
         results.push({ 
           marketAddress: market.marketAddress, 
           phase: -1, 
@@ -167,20 +226,30 @@ router.post('/close-all', async (req, res) => {
       }
     }
 
-    const closed = results.filter(r => r.status.includes('closed')).length;
+    // Close transactions are queued; track them via GET /api/tx/:id. Pending ones were queued by an earlier run.
+    const closed = results.filter(r => r.status.startsWith('close-submitted')).length;
+    const pending = results.filter(r => r.status.startsWith('close-pending')).length;
     const notReady = results.filter(r => r.status.includes('not-ready')).length;
     const alreadyClosed = results.filter(r => r.status.includes('already-closed')).length;
+    const errors = results.filter(r => r.phase === -1).length;
 
-    console.log(`📊 Summary: ${closed} closed, ${notReady} not ready, ${alreadyClosed} already closed`);
+    console.log(`📊 Summary: ${closed} closed, ${pending} pending, ${notReady} not ready, ${alreadyClosed} already closed`);
+    closeAllResults.inc({ chain_id: chainId, result: 'closed' }, closed);
+    closeAllResults.inc({ chain_id: chainId, result: 'close-pending' }, pending);
+    closeAllResults.inc({ chain_id: chainId, result: 'not-ready' }, notReady);
+    closeAllResults.inc({ chain_id: chainId, result: 'already-closed' }, alreadyClosed);
+    closeAllResults.inc({ chain_id: chainId, result: 'error' }, errors);
 
     res.json({ 
       success: true, 
+      chainId,
       summary: {
         total: markets.length,
         closed,
+        pending,
         notReady,
         alreadyClosed,
-        errors: results.filter(r => r.phase === -1).length
+        errors
       },
       results 
     });
@@ -190,80 +259,135 @@ router.post('/close-all', async (req, res) => {
   }
 });
 
-// Generate market suggestions based on current leaderboard
+// Resolve markets past their resolveTime against the leaderboard snapshot for that day
+// Pass dryRun to get the computed outcomes without sending transactions
+router.post('/resolve-due', async (req, res) => {
+  const { dryRun = false, marketAddresses } = req.body ?? {};
+  if (marketAddresses !== undefined && !Array.isArray(marketAddresses)) {
+    return res.status(400).json({ error: 'marketAddresses must be an array' });
+  }
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
+    const result = await resolveDueMarkets(getProvider(chainId), {
+      dryRun: dryRun === true || dryRun === 'true',
+      marketAddresses,
+      enableCache: ENABLE_CACHE,
+    });
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Resolve error:', error);
+    res.status(500).json({ error: error.message || 'Failed to resolve markets' });
+  }
+});
+
+// Upcoming and failed scheduled close/resolve jobs
+router.get('/schedule', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    res.json(await getSchedule(getProvider(chainId)));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run due scheduled jobs now (e.g. right after time travel on a local chain)
+router.post('/schedule/run', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
+    const result = await runScheduler(getProvider(chainId), ENABLE_CACHE);
+    res.json({ success: true, chainId, ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Re-queue a failed scheduled job
+router.post('/schedule/:id/retry', async (req, res) => {
+  try {
+    const job = await ScheduledJob.findOneAndUpdate(
+      { _id: req.params.id, status: 'failed' },
+      { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+      { new: true }
+    );
+    if (!job) {
+      return res.status(404).json({ error: 'Failed job not found' });
+    }
+    res.json({ success: true, job });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generate market suggestions from the current leaderboard
+// (?top10Strategy=, ?h2hStrategy=, ?seed= for reproducible picks, ?days= of rank history)
 router.get('/markets/suggest', async (req, res) => {
   try {
-    const { top10Count = 5, h2hCount = 5 } = req.query;
+    const { top10Count = 5, h2hCount = 5, top10Strategy = 'boundary', h2hStrategy = 'close-h2h', days = 7 } = req.query;
     const numTop10 = parseInt(top10Count as string, 10);
     const numH2h = parseInt(h2hCount as string, 10);
+    const historyDays = parseInt(days as string, 10);
+    if (isNaN(numTop10) || isNaN(numH2h) || numTop10 < 0 || numH2h < 0) {
+      return res.status(400).json({ error: 'top10Count and h2hCount must be non-negative integers' });
+    }
+    if (isNaN(historyDays) || historyDays < 1 || historyDays > 90) {
+      return res.status(400).json({ error: 'days must be between 1 and 90' });
+    }
+
+    const top10Suggester = SUGGESTION_STRATEGIES[String(top10Strategy)];
+    const h2hSuggester = SUGGESTION_STRATEGIES[String(h2hStrategy)];
+    if (!top10Suggester?.top10) {
+      return res.status(400).json({ error: `Unknown top10 strategy: ${top10Strategy}` });
+    }
+    if (!h2hSuggester?.h2h) {
+      return res.status(400).json({ error: `Unknown h2h strategy: ${h2hStrategy}` });
+    }
 
     // Get latest leaderboard (today's, highest index)
     const today = getDateOnly(new Date());
-    
-    const latestLeaderboard = await LeaderboardEntry.find({ date: today })
-      .sort({ index: -1 })
-      .limit(1)
-      .exec();
-
-    if (latestLeaderboard.length === 0) {
+    const snapshot = await getSnapshot({ date: today });
+    if (!snapshot) {
       return res.status(404).json({ error: 'No leaderboard found for today' });
     }
-
-    const leaderboardIndex = latestLeaderboard[0].index;
-    const allProjects = await LeaderboardEntry.find({ 
-      date: today, 
-      index: leaderboardIndex 
-    })
-      .sort({ rank: 1 })
-      .exec();
-
-    if (allProjects.length < 2) {
+    if (snapshot.entries.length < 2) {
       return res.status(400).json({ error: 'Not enough projects in leaderboard' });
     }
 
-    // Shuffle array for random selection
-    const shuffled = [...allProjects].sort(() => Math.random() - 0.5);
-
-    // Select Top-10 markets (random projects)
-    const top10Markets = [];
-    for (let i = 0; i < numTop10 && i < shuffled.length; i++) {
-      top10Markets.push({
-        type: 'top10',
-        projectName: shuffled[i].name
-      });
-    }
-
-    // Select H2H markets (random pairs, ensure different projects)
-    const h2hMarkets = [];
-    const usedProjects = new Set<string>();
-    let attempts = 0;
-    const maxAttempts = shuffled.length * 2;
-
-    while (h2hMarkets.length < numH2h && attempts < maxAttempts) {
-      const projectA = shuffled[Math.floor(Math.random() * shuffled.length)];
-      const projectB = shuffled[Math.floor(Math.random() * shuffled.length)];
-
-      if (projectA.name !== projectB.name && 
-          !usedProjects.has(projectA.name) && 
-          !usedProjects.has(projectB.name)) {
-        h2hMarkets.push({
-          type: 'h2h',
-          projectA: projectA.name,
-          projectB: projectB.name
-        });
-        usedProjects.add(projectA.name);
-        usedProjects.add(projectB.name);
-      }
-      attempts++;
-    }
+    // Echoed back so the same picks can be requested again
+    const seed = req.query.seed ? String(req.query.seed) : String(Date.now());
+    const { top10, h2h, excluded } = await buildSuggestions({
+      entries: snapshot.entries,
+      top10Strategy: top10Suggester,
+      h2hStrategy: h2hSuggester,
+      top10Count: numTop10,
+      h2hCount: numH2h,
+      seed,
+      historyDays,
+    });
 
     res.json({
-      top10: top10Markets,
-      h2h: h2hMarkets,
-      top10Count: top10Markets.length,
-      h2hCount: h2hMarkets.length,
+      top10,
+      h2h,
+      top10Count: top10.length,
+      h2hCount: h2h.length,
       leaderboardDate: today.toISOString().split('T')[0],
-      leaderboardIndex
+      leaderboardIndex: snapshot.index,
+      seed,
+      strategies: { top10: top10Suggester.name, h2h: h2hSuggester.name },
+      excluded,
     });
   } catch (error: any) {
     console.error('Error generating market suggestions:', error);
@@ -271,59 +395,149 @@ router.get('/markets/suggest', async (req, res) => {
   }
 });
 
-// Import markets
+// Deploy markets through the chain's factory and import them once mined. Accepts manual specs or entries
+// from /markets/suggest; top-level lockTime/resolveTime apply to markets that don't set their own.
+router.post('/markets/deploy', async (req, res) => {
+  const { markets, lockTime, resolveTime } = req.body;
+  if (!Array.isArray(markets) || markets.length === 0) {
+    return res.status(400).json({ error: 'markets array required' });
+  }
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  if (!isSignerConfigured('admin', chainId)) {
+    return res.status(500).json({ error: 'ADMIN_PRIVATE_KEY not configured' });
+  }
+
+  try {
+    const result = await deployMarkets(getProvider(chainId), markets.map((m: any) => ({
+      type: m.type,
+      projectName: m.projectName,
+      projectA: m.projectA,
+      projectB: m.projectB,
+      lockTime: m.lockTime ?? lockTime,
+      resolveTime: m.resolveTime ?? resolveTime,
+    })));
+    res.json({ success: result.failed === 0, ...result });
+  } catch (error: any) {
+    console.error('Deploy error:', error);
+    res.status(500).json({ error: error.message || 'Failed to deploy markets' });
+  }
+});
+
+// Import markets of one chain into a new round, or into an existing one with `roundId`
+// Market fields an import row may set; anything else in the row is ignored
+const IMPORT_FIELDS = [
+  'type', 'projectName', 'projectA', 'projectB', 'lockTime', 'resolveTime', 'question', 'questionHash',
+  'marketId', 'marketAddress', 'phase', 'status', 'winner', 'poolA', 'poolB',
+] as const;
+
+// Copy the known fields of an import row and report what's wrong with it
+function parseImportRow(row: any, i: number) {
+  const errors: string[] = [];
+  if (row.type !== 'top10' && row.type !== 'h2h') {
+    errors.push(`markets[${i}]: type must be top10 or h2h`);
+  }
+  for (const field of ['poolA', 'poolB'] as const) {
+    if (row[field] !== undefined && !/^\d+$/.test(String(row[field]))) {
+      errors.push(`markets[${i}]: ${field} must be an integer amount in wei`);
+    }
+  }
+  const market: Record<string, unknown> = {};
+  for (const field of IMPORT_FIELDS) {
+    if (row[field] !== undefined) market[field] = row[field];
+  }
+  return { market, errors };
+}
+
 router.post('/markets/import', async (req, res) => {
-  const { markets, clearExisting } = req.body;
-  if (!Array.isArray(markets)) {
+  const { clearExisting, roundId } = req.body;
+  if (!Array.isArray(req.body.markets)) {
     return res.status(400).json({ error: 'markets array required' });
   }
+  // Entries without an address or id were always skipped; a request with none would leave an empty round
+  const parsed = (req.body.markets as any[]).flatMap((m, i) => (m?.marketAddress && m?.marketId ? [parseImportRow(m, i)] : []));
+  if (parsed.length === 0) {
+    return res.status(400).json({ error: 'markets must include at least one market with marketAddress and marketId' });
+  }
+  const rowErrors = parsed.flatMap(p => p.errors);
+  if (rowErrors.length > 0) {
+    return res.status(400).json({ error: 'Invalid markets', details: rowErrors });
+  }
+  const markets = parsed.map(p => p.market) as any[];
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
 
   try {
-    const provider = req.app.get('provider') as ethers.JsonRpcProvider;
-    const deploymentDate = new Date();
-    const deploymentDateOnly = getDateOnly(deploymentDate);
-    
-    let deploymentIndex = 0;
+    // Project names must match the registry so markets can be resolved against the leaderboard
+    const names = markets.flatMap((m: any) => (m.type === 'h2h' ? [m.projectA, m.projectB] : [m.projectName]))
+      .map((name: unknown) => String(name ?? ''));
+    const { resolved, unknown } = await resolveProjectNames(names);
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown projects: ${unknown.join(', ')}`, unknown });
+    }
+    const canonical = (name?: string) => (name ? resolved.get(name)?.name ?? name : name);
+
+    let round = roundId ? await Round.findOne({ roundId: String(roundId) }) : null;
+    if (roundId && !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+    if (round && round.chainId !== chainId) {
+      return res.status(400).json({ error: `Round ${round.roundId} is on chain ${round.chainId}` });
+    }
+    if (round?.status === 'archived') {
+      return res.status(409).json({ error: 'Round is archived' });
+    }
 
-    // Optionally clear all existing markets before importing
+    const provider = getProvider(chainId);
+
+    // Optionally archive the chain's existing rounds (their markets stay queryable) before importing
+    let archived = 0;
     if (clearExisting) {
-      const deleted = await Market.deleteMany({});
-      console.log(`🗑️  Cleared ${deleted.deletedCount} existing markets`);
-      deploymentIndex = 0; // Start fresh at 0
-    } else {
-      // Find the highest deployment index for today
-      const maxDeploymentDoc = await Market.findOne({ deploymentDate: deploymentDateOnly })
-        .sort({ deploymentIndex: -1 })
-        .select('deploymentIndex')
-        .lean();
-      
-      deploymentIndex = maxDeploymentDoc ? (maxDeploymentDoc.deploymentIndex || 0) + 1 : 0;
+      if (round) {
+        return res.status(400).json({ error: 'clearExisting cannot be combined with roundId' });
+      }
+      archived = await archiveRounds(chainId);
     }
+    round = round ?? await createRound(chainId);
 
-    console.log(`📦 Importing ${markets.length} markets (deployment date: ${deploymentDateOnly.toISOString().split('T')[0]}, index: ${deploymentIndex})`);
+    console.log(`📦 Importing ${markets.length} markets on chain ${chainId} into round ${round.roundId}`);
 
     let upserted = 0;
     for (const market of markets) {
-      if (!market.marketAddress || !market.marketId) continue;
       await Market.findOneAndUpdate(
-        { marketAddress: market.marketAddress },
+        { marketAddress: market.marketAddress, chainId },
         { 
           ...market, 
+          chainId,
+          projectName: canonical(market.projectName),
+          projectA: canonical(market.projectA),
+          projectB: canonical(market.projectB),
           status: market.status || phaseToStatus(market.phase ?? 0),
-          deploymentDate: deploymentDateOnly,
-          deploymentIndex: deploymentIndex,
+          // Listing sorts and filters on this; syncMarketPhases keeps it current from here on
+          totalPoolSort: toPoolSortKey(BigInt(market.poolA || '0') + BigInt(market.poolB || '0')),
+          roundId: round.roundId,
+          deploymentDate: round.deploymentDate,
+          deploymentIndex: round.deploymentIndex,
         },
         { upsert: true }
       );
       upserted++;
     }
     await syncMarketPhases(provider);
+    await refreshRounds([round.roundId]);
     res.json({ 
       success: true, 
+      chainId,
       count: upserted, 
       cleared: clearExisting || false,
-      deploymentDate: deploymentDateOnly.toISOString().split('T')[0],
-      deploymentIndex: clearExisting ? 0 : deploymentIndex,
+      archivedRounds: archived,
+      roundId: round.roundId,
+      deploymentDate: round.deploymentDate.toISOString().split('T')[0],
+      deploymentIndex: round.deploymentIndex,
     });
   } catch (error: any) {
     console.error('Import error:', error);
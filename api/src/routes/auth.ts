@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { ethers } from 'ethers';
+import { createChallenge, verifyChallenge, getOperatorForRequest, revokeSession } from '../utils/auth';
+
+const router = Router();
+
+// Request a challenge to sign with the operator wallet
+router.post('/challenge', async (req, res) => {
+  const { address } = req.body;
+  if (!address || !ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Valid address required' });
+  }
+
+  try {
+    res.json(await createChallenge(address));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Exchange a signed challenge for a session token
+router.post('/verify', async (req, res) => {
+  const { address, nonce, signature, signatureType = 'eip191' } = req.body;
+  // Strings only: the values go into a Mongo filter, where an object like { $ne: null } would match any challenge
+  if ([address, nonce, signature].some(value => typeof value !== 'string' || value === '')) {
+    return res.status(400).json({ error: 'address, nonce and signature required' });
+  }
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Valid address required' });
+  }
+  if (signatureType !== 'eip191' && signatureType !== 'eip712') {
+    return res.status(400).json({ error: 'signatureType must be eip191 or eip712' });
+  }
+
+  try {
+    const session = await verifyChallenge(address, nonce, signature, signatureType);
+    if (!session) {
+      console.warn(`🚫 Denied sign-in for ${address} (invalid or expired challenge) ip=${req.ip}`);
+      return res.status(401).json({ error: 'Invalid signature or expired challenge' });
+    }
+    if (session.roles.length === 0) {
+      console.warn(`🚫 Signed in ${address} has no operator roles ip=${req.ip}`);
+    }
+    res.json(session);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Current session
+router.get('/me', async (req, res) => {
+  try {
+    const operator = await getOperatorForRequest(req);
+    if (!operator) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    res.json(operator);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/logout', async (req, res) => {
+  const header = req.headers.authorization;
+  try {
+    if (header?.startsWith('Bearer ')) {
+      await revokeSession(header.slice('Bearer '.length).trim());
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,45 +1,54 @@
 import { Router } from 'express';
-import { ethers } from 'ethers';
-import { syncMarketToCache, syncUserInvestmentToCache, syncUserBalanceToCache } from '../utils/sync';
+import { getProvider, getRequestChainId } from '../utils/chains';
+import { refreshFromReceipt } from '../utils/receipts';
+import { isRpcUnavailable } from '../utils/rpc';
 
 const router = Router();
 
-// Cache update endpoint - call this after on-chain writes (deposit, redeem, close, settle)
+const REJECTED: Record<string, { status: number; error: string }> = {
+  'not-found': { status: 404, error: 'Transaction not found' },
+  pending: { status: 409, error: 'Transaction not mined yet' },
+  reverted: { status: 422, error: 'Transaction reverted' },
+  'unknown-contracts': { status: 422, error: 'Transaction does not involve a known market or the stake token' },
+  'too-many-entities': { status: 422, error: 'Transaction touches too many markets and accounts to refresh' },
+};
+
+// Cache update endpoint - call this with the hash of an on-chain write (deposit, redeem, close, settle).
+// The receipt is fetched from the chain (body.chainId, default chain otherwise) and only the markets,
+// investments and balances its logs touch are refreshed.
 router.post('/update', async (req, res) => {
-  try {
-    const { marketAddress, userAddress } = req.body;
-    const provider = req.app.get('provider') as ethers.JsonRpcProvider;
-    const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-    
-    if (!ENABLE_CACHE) {
-      return res.json({ success: true, message: 'Cache disabled, skipped' });
-    }
-
-    const updates: string[] = [];
+  const { txHash } = req.body;
+  const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
 
-    // Always update market cache
-    if (marketAddress) {
-      await syncMarketToCache(marketAddress, provider);
-      updates.push(`market:${marketAddress}`);
-    }
-
-    // Update user investment cache if user address provided
-    if (marketAddress && userAddress) {
-      await syncUserInvestmentToCache(marketAddress, userAddress, provider);
-      updates.push(`investment:${marketAddress}:${userAddress}`);
-    }
+  if (typeof txHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return res.status(400).json({ error: 'txHash must be a 32-byte hex transaction hash' });
+  }
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  if (!ENABLE_CACHE) {
+    return res.json({ success: true, message: 'Cache disabled, skipped' });
+  }
 
-    // Update user balance if user address provided
-    if (userAddress) {
-      await syncUserBalanceToCache(userAddress, provider);
-      updates.push(`balance:${userAddress}`);
+  try {
+    const result = await refreshFromReceipt(txHash, getProvider(chainId));
+    if (!('updated' in result)) {
+      const { status, error } = REJECTED[result.status];
+      return res.status(status).json({ error });
     }
 
-    res.json({ success: true, updated: updates });
+    res.json({
+      success: true,
+      chainId,
+      txHash,
+      updated: result.updated,
+      ...(result.status === 'already-processed' && { alreadyProcessed: true }),
+    });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    const status = isRpcUnavailable(error) ? 503 : 500;
+    res.status(status).json({ error: error.message });
   }
 });
 
 export default router;
-
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { Contract } from '../db';
+import { formatChain, getChain, getChains } from '../utils/chains';
+
+const router = Router();
+
+// Configured chains (RPC URLs and keys are never exposed)
+router.get('/', (req, res) => {
+  try {
+    res.json(getChains().map(formatChain));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// One chain with its registered contracts
+router.get('/:chainId', async (req, res) => {
+  const chain = getChain(Number(req.params.chainId));
+  if (!chain) {
+    return res.status(404).json({ error: 'Chain not found' });
+  }
+
+  try {
+    const contracts = await Contract.find({ chainId: chain.chainId }).lean();
+    res.json({
+      ...formatChain(chain),
+      contracts: contracts.map(c => ({ type: c.type, address: c.address })),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,30 +1,42 @@
 import { Router } from 'express';
 import { Contract } from '../db';
 import { getDateOnly } from '../utils/constants';
+import { requireRole } from '../utils/auth';
+import { getRequestChainId } from '../utils/chains';
 
 const router = Router();
 
+// Contracts of one chain (?chainId=, default chain otherwise)
 router.get('/', async (req, res) => {
-  const contracts = await Contract.find().lean();
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  const contracts = await Contract.find({ chainId }).lean();
   res.json(contracts.map(c => ({
+    chainId: c.chainId,
     type: c.type,
     address: c.address,
     metadata: c.metadata,
   })));
 });
 
-router.post('/', async (req, res) => {
+router.post('/', requireRole('deployer'), async (req, res) => {
   const { contracts } = req.body;
+  const chainId = getRequestChainId(req);
   if (!Array.isArray(contracts)) {
     return res.status(400).json({ error: 'contracts array required' });
   }
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
 
   try {
     const deploymentDate = new Date();
     const deploymentDateOnly = getDateOnly(deploymentDate);
     
-    // Find the highest deployment index for today
-    const maxDeploymentDoc = await Contract.findOne({ deploymentDate: deploymentDateOnly })
+    // Find the highest deployment index for today on this chain
+    const maxDeploymentDoc = await Contract.findOne({ deploymentDate: deploymentDateOnly, chainId })
       .sort({ deploymentIndex: -1 })
       .select('deploymentIndex')
       .lean();
@@ -33,9 +45,10 @@ router.post('/', async (req, res) => {
 
     for (const contract of contracts) {
       await Contract.findOneAndUpdate(
-        { type: contract.type },
+        { type: contract.type, chainId },
         {
           ...contract,
+          chainId,
           deploymentDate: deploymentDateOnly,
           deploymentIndex,
         },
@@ -43,8 +56,8 @@ router.post('/', async (req, res) => {
       );
     }
 
-    console.log(`✅ Saved ${contracts.length} contracts (deployment date: ${deploymentDateOnly.toISOString().split('T')[0]}, index: ${deploymentIndex})`);
-    res.json({ success: true, count: contracts.length, deploymentDate: deploymentDateOnly.toISOString().split('T')[0], deploymentIndex });
+    console.log(`✅ Saved ${contracts.length} contracts on chain ${chainId} (deployment date: ${deploymentDateOnly.toISOString().split('T')[0]}, index: ${deploymentIndex})`);
+    res.json({ success: true, chainId, count: contracts.length, deploymentDate: deploymentDateOnly.toISOString().split('T')[0], deploymentIndex });
   } catch (error: any) {
     console.error('Error saving contracts:', error);
     res.status(500).json({ error: error.message || 'Failed to save contracts' });
@@ -1,74 +1,164 @@
 import { Router } from 'express';
 import { ethers } from 'ethers';
-import { Contract } from '../db';
+import mongoose from 'mongoose';
+import { Contract, FaucetClaim, FaucetClaimDoc, PendingTransaction } from '../db';
 import { STAKE_TOKEN_ABI } from '../utils/constants';
-import { syncUserBalanceToCache } from '../utils/sync';
+import { enqueueTransaction, getSigner, isSignerConfigured } from '../utils/txManager';
+import {
+  getFaucetConfig,
+  checkFaucetEligibility,
+  reserveFaucetClaim,
+  releaseFaucetClaim,
+  verifyFaucetSignature,
+  getFaucetStatus,
+} from '../utils/faucet';
+import { getProvider, getRequestChainId } from '../utils/chains';
+import { faucetAvailableBalance, faucetRequests } from '../utils/metrics';
 
 const router = Router();
 
+// When the next claim is allowed and past claims for an address on a chain (?chainId=)
+router.get('/status/:address', async (req, res) => {
+  const { address } = req.params;
+  const chainId = getRequestChainId(req);
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    res.json(await getFaucetStatus(address, chainId));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 router.post('/', async (req, res) => {
-  const { address, amount } = req.body;
-  const provider = req.app.get('provider') as ethers.JsonRpcProvider;
+  const { address, amount, signature, timestamp } = req.body;
+  const chainId = getRequestChainId(req);
   const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-  
+  const { maxAmount, requireSignature } = getFaucetConfig();
+
   if (!address || !amount) {
     return res.status(400).json({ error: 'address and amount required' });
   }
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  // Validate amount (max FAUCET_MAX_AMOUNT tokens). Parsed once, as the transfer will parse it.
+  let amountWei: bigint;
+  try {
+    if (typeof amount !== 'string' && typeof amount !== 'number') throw new Error('Invalid amount');
+    amountWei = ethers.parseEther(String(amount));
+  } catch {
+    return res.status(400).json({ error: 'amount must be a token amount (e.g. 10 or 2.5)' });
+  }
+  const amountNum = Number(ethers.formatEther(amountWei));
+  if (amountWei <= 0n || amountNum > maxAmount) {
+    return res.status(400).json({ error: `Amount must be between 0 and ${maxAmount} tokens` });
+  }
 
-  // Validate amount (max 1000 tokens)
-  const amountNum = parseFloat(amount);
-  if (isNaN(amountNum) || amountNum <= 0 || amountNum > 1000) {
-    return res.status(400).json({ error: 'Amount must be between 0 and 1000 tokens' });
+  // Optionally require proof that the requester owns the address
+  if (requireSignature || signature) {
+    if (!signature || !timestamp) {
+      return res.status(400).json({ error: 'signature and timestamp required' });
+    }
+    const signatureError = verifyFaucetSignature(address, amount, Number(timestamp), signature, chainId);
+    if (signatureError) {
+      return res.status(401).json({ error: signatureError });
+    }
   }
 
-  const privateKey = process.env.FAUCET_PRIVATE_KEY || process.env.PRIVATE_KEY;
-  if (!privateKey) {
-    return res.status(500).json({ error: 'Faucet not configured' });
+  if (!isSignerConfigured('faucet', chainId)) {
+    return res.status(500).json({ error: `Faucet not configured for chain ${chainId}` });
   }
 
+  const provider = getProvider(chainId);
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  const claimId = new mongoose.Types.ObjectId().toString();
+  const reservedAt = new Date();
+  let claimReserved = false;
+  let claim: FaucetClaimDoc | undefined;
+
   try {
-    const wallet = new ethers.Wallet(privateKey, provider);
+    const eligibility = await checkFaucetEligibility(address, ip, amountNum, chainId);
+    const reservation = eligibility.allowed
+      ? await reserveFaucetClaim(address, ip, amountNum, chainId, claimId)
+      : eligibility;
+    if (!reservation.allowed) {
+      console.warn(`🚫 Faucet: ${reservation.reason} for ${address} (ip ${ip})`);
+      faucetRequests.inc({ chain_id: chainId, result: 'rate-limited' });
+      res.set('Retry-After', String(reservation.retryAfter));
+      return res.status(429).json({ error: reservation.reason, retryAfter: reservation.retryAfter });
+    }
+    claimReserved = true;
+
+    // The reservation holds the cooldown; the claim records it for history and status
+    claim = await FaucetClaim.create({ _id: claimId, address, chainId, ip, amount: amountNum, status: 'pending' });
+
+    const wallet = getSigner('faucet', provider);
 
     // Get stake token address from database
-    const stakeTokenContract = await Contract.findOne({ type: 'stakeToken' });
+    const stakeTokenContract = await Contract.findOne({ type: 'stakeToken', chainId });
     if (!stakeTokenContract || !stakeTokenContract.address) {
-      return res.status(500).json({ error: 'Stake token not found in database. Deploy contracts first.' });
+      throw new Error(`Stake token for chain ${chainId} not found in database. Deploy contracts first.`);
     }
 
-    console.log(`💰 Faucet: Sending ${amount} tokens to ${address} using token ${stakeTokenContract.address}`);
+    console.log(`💰 Faucet: Sending ${amount} tokens to ${address} on chain ${chainId} using token ${stakeTokenContract.address}`);
 
     const stakeToken = new ethers.Contract(
       stakeTokenContract.address,
       STAKE_TOKEN_ABI,
-      wallet
+      provider
     );
 
-    // Check faucet balance first
-    const faucetBalance = await stakeToken.balanceOf(wallet.address);
-    const amountWei = ethers.parseEther(amount.toString());
-    
-    if (faucetBalance < amountWei) {
-      return res.status(500).json({ 
-        error: `Insufficient faucet balance. Faucet has ${ethers.formatEther(faucetBalance)} tokens, requested ${amount}` 
-      });
-    }
-
-    const tx = await stakeToken.transfer(address, amountWei);
-    console.log(`  Transaction hash: ${tx.hash}`);
-    await tx.wait();
-    console.log(`  ✅ Tokens sent successfully`);
+    // Check faucet balance first (minus transfers still in flight)
+    const faucetBalance: bigint = await stakeToken.balanceOf(wallet.address);
+    const inFlight = await PendingTransaction.find({ kind: 'faucet', chainId, status: { $in: ['queued', 'sent'] } }).lean();
+    const reserved = inFlight.reduce((sum, tx) => sum + BigInt((tx.context?.amountWei as string) ?? '0'), 0n);
+    faucetAvailableBalance.set({ chain_id: chainId }, Number(ethers.formatEther(faucetBalance - reserved)));
 
-    // Update cache if enabled
-    if (ENABLE_CACHE) {
-      await syncUserBalanceToCache(address, provider);
+    if (faucetBalance - reserved < amountWei) {
+      throw new Error(`Insufficient faucet balance. Faucet has ${ethers.formatEther(faucetBalance - reserved)} tokens available, requested ${amount}`);
     }
 
-    res.json({ success: true, txHash: tx.hash });
+    // Queue the transfer and return immediately; track it via GET /api/tx/:id
+    const tx = await enqueueTransaction(provider, {
+      signer: 'faucet',
+      kind: 'faucet',
+      to: stakeTokenContract.address,
+      data: stakeToken.interface.encodeFunctionData('transfer', [address, amountWei]),
+      context: { claimId: claim.id, address, amountWei: amountWei.toString(), enableCache: ENABLE_CACHE },
+    });
+    claim.txId = tx.id;
+    await claim.save();
+    faucetRequests.inc({ chain_id: chainId, result: 'queued' });
+    faucetAvailableBalance.set({ chain_id: chainId }, Number(ethers.formatEther(faucetBalance - reserved - amountWei)));
+
+    res.status(202).json({ success: true, chainId, txId: tx.id, status: tx.status });
   } catch (error: any) {
     console.error('Faucet error:', error);
+    faucetRequests.inc({ chain_id: chainId, result: 'error' });
+    try {
+      if (claim) {
+        claim.status = 'failed';
+        claim.error = error.message;
+        await claim.save();
+      }
+      if (claimReserved) {
+        await releaseFaucetClaim(chainId, claimId, amountNum, reservedAt);
+      }
+    } catch (cleanupError: any) {
+      console.error('Failed to release faucet claim:', cleanupError.message || cleanupError);
+    }
     res.status(500).json({ error: error.message || 'Failed to send tokens' });
   }
 });
 
 export default router;
-
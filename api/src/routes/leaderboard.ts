@@ -1,35 +1,21 @@
 import { Router } from 'express';
-import { LeaderboardEntry } from '../db';
 import { getDateOnly } from '../utils/constants';
+import {
+  getLeaderboardForDate,
+  parseSnapshotRef,
+  getSnapshot,
+  diffLeaderboards,
+  listSnapshots,
+  getProjectTimeline,
+  prepareSnapshotEntries,
+  hashSnapshotEntries,
+  saveLeaderboardSnapshot,
+} from '../utils/leaderboard';
+import { requireRole } from '../utils/auth';
+import { getProjectKeys } from '../utils/projects';
 
 const router = Router();
 
-// Helper: Get leaderboard for a specific date (highest index)
-async function getLeaderboardForDate(date: Date): Promise<any[]> {
-  const dateOnly = getDateOnly(date);
-  
-  // Find the highest index for this date
-  const maxIndexDoc = await LeaderboardEntry.findOne({ date: dateOnly })
-    .sort({ index: -1 })
-    .select('index')
-    .lean();
-  
-  if (!maxIndexDoc) {
-    console.log(`⚠️  No leaderboard entries found for date: ${dateOnly.toISOString().split('T')[0]}`);
-    return [];
-  }
-  
-  const maxIndex = maxIndexDoc.index;
-  console.log(`📈 Using leaderboard index ${maxIndex} for date: ${dateOnly.toISOString().split('T')[0]}`);
-  
-  // Get all entries for this date and index, sorted by rank
-  const entries = await LeaderboardEntry.find({ date: dateOnly, index: maxIndex })
-    .sort({ rank: 1 })
-    .lean();
-  
-  return entries;
-}
-
 router.get('/today', async (req, res) => {
   try {
     const today = getDateOnly(new Date());
@@ -72,7 +58,46 @@ router.get('/date', async (req, res) => {
   }
 });
 
-router.post('/snapshot', async (req, res) => {
+// Rank/score changes between two snapshots: ?from=YYYY-MM-DD[:index]&to=YYYY-MM-DD[:index]
+// Defaults to yesterday's latest vs today's latest snapshot
+router.get('/diff', async (req, res) => {
+  const yesterday = new Date();
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  const fromRef = req.query.from ? parseSnapshotRef(String(req.query.from)) : { date: getDateOnly(yesterday) };
+  const toRef = req.query.to ? parseSnapshotRef(String(req.query.to)) : { date: getDateOnly(new Date()) };
+  const top = parseInt((req.query.top as string) || '10', 10);
+
+  if (!fromRef || !toRef) {
+    return res.status(400).json({ error: 'from and to must be YYYY-MM-DD or YYYY-MM-DD:index' });
+  }
+  if (isNaN(top) || top <= 0) {
+    return res.status(400).json({ error: 'top must be a positive number' });
+  }
+
+  try {
+    const [from, to] = await Promise.all([getSnapshot(fromRef), getSnapshot(toRef)]);
+    if (!from || !to) {
+      return res.status(404).json({ error: `No leaderboard snapshot found for ${!from ? 'from' : 'to'}` });
+    }
+
+    const keyOf = await getProjectKeys([...from.entries, ...to.entries].map(e => e.name));
+    const describe = (s: NonNullable<typeof from>) => ({
+      date: s.date.toISOString().split('T')[0],
+      index: s.index,
+      count: s.entries.length,
+    });
+    res.json({
+      from: describe(from),
+      to: describe(to),
+      top,
+      ...diffLeaderboards(from.entries, to.entries, top, keyOf),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/snapshot', requireRole('oracle'), async (req, res) => {
   try {
     const { date, entries } = req.body;
     
@@ -80,44 +105,73 @@ router.post('/snapshot', async (req, res) => {
       return res.status(400).json({ error: 'date (YYYY-MM-DD) and entries array required' });
     }
     
-    const dateOnly = getDateOnly(new Date(date));
-    
-    // Find the highest index for this date
-    const maxIndexDoc = await LeaderboardEntry.findOne({ date: dateOnly })
-      .sort({ index: -1 })
-      .select('index')
-      .lean();
-    
-    const nextIndex = maxIndexDoc ? maxIndexDoc.index + 1 : 0;
-    
-    // Delete any existing entries for this date/index (handle retries)
-    await LeaderboardEntry.deleteMany({ date: dateOnly, index: nextIndex });
-    
-    // Insert new entries - remove _id to let MongoDB generate new ones
-    const leaderboardEntries = entries.map((entry: any) => {
-      const { _id, ...entryWithoutId } = entry;
-      return {
-        ...entryWithoutId,
-        date: dateOnly,
-        index: nextIndex,
-      };
-    });
-    
-    await LeaderboardEntry.insertMany(leaderboardEntries);
-    
-    console.log(`✅ Saved leaderboard snapshot: ${dateOnly.toISOString().split('T')[0]}, index ${nextIndex}, ${entries.length} projects`);
-    
-    res.json({
-      success: true,
-      date: dateOnly.toISOString().split('T')[0],
-      index: nextIndex,
-      count: entries.length,
-    });
+    const snapshotDate = new Date(date);
+    if (isNaN(snapshotDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+    }
+
+    // Every entry must be a registered project with contiguous ranks and falling scores
+    const prepared = await prepareSnapshotEntries(entries);
+    if (prepared.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid leaderboard snapshot', details: prepared.errors, unknown: prepared.unknown });
+    }
+
+    const saved = await saveLeaderboardSnapshot(snapshotDate, prepared.entries, `api:${res.locals.operator.address}`);
+    res.json({ success: true, ...saved });
   } catch (error: any) {
     console.error('Error saving leaderboard snapshot:', error);
     res.status(500).json({ error: error.message || 'Failed to save snapshot' });
   }
 });
 
+// A project's rank and score across all snapshots of the last `days` days
+router.get('/project/:name/timeline', async (req, res) => {
+  const days = parseInt((req.query.days as string) || '7', 10);
+  if (isNaN(days) || days <= 0 || days > 365) {
+    return res.status(400).json({ error: 'days must be between 1 and 365' });
+  }
+
+  try {
+    const timeline = await getProjectTimeline(req.params.name, days);
+    res.json({ ...timeline, since: timeline.since.toISOString().split('T')[0], days });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Every intraday snapshot for a date (must come before /:date/:index)
+router.get('/:date/snapshots', async (req, res) => {
+  const ref = parseSnapshotRef(req.params.date);
+  if (!ref || ref.index !== undefined) {
+    return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
+  }
+
+  try {
+    const snapshots = await listSnapshots(ref.date);
+    res.json({ date: req.params.date, snapshots });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// A specific snapshot by date and index
+router.get('/:date/:index', async (req, res) => {
+  const ref = parseSnapshotRef(`${req.params.date}:${req.params.index}`);
+  if (!ref) {
+    return res.status(400).json({ error: 'Use /:date/:index with date as YYYY-MM-DD and a numeric index' });
+  }
+
+  try {
+    const snapshot = await getSnapshot(ref);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.set('X-Content-Hash', hashSnapshotEntries(snapshot.entries));
+    res.json(snapshot.entries);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
 
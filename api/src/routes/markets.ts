@@ -1,160 +1,319 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
 import { ethers } from 'ethers';
-import { Market, UserInvestment } from '../db';
-import { MARKET_ADMIN_ABI } from '../utils/constants';
-import { syncMarketPhases, syncMarketToCache, syncUserInvestmentToCache } from '../utils/sync';
+import { Market, Round } from '../db';
+import { syncMarketPhases, marketCache, investmentCache } from '../utils/sync';
+import { getProtocolFeeBps, quoteDeposit } from '../utils/odds';
+import { getCurrentRound } from '../utils/rounds';
+import { MARKET_SORTS, MarketListOptions, MarketSort, decodeCursor, listMarkets } from '../utils/markets';
+import { findProject, findProjectMarketNames } from '../utils/projects';
+import { getMarketHistory, HISTORY_BUCKETS, HistoryBucket } from '../utils/history';
+import { getChain, getChains, getMarketTarget, getProvider, isAmbiguousChain } from '../utils/chains';
+import { isRpcUnavailable } from '../utils/rpc';
+import { formatCacheInfo, getCacheConfig } from '../utils/cache';
 
 const router = Router();
 
+// 503 when no RPC endpoint could serve the request and nothing was cached, 400 when chainId is needed
+function sendError(res: Response, error: any) {
+  const status = isRpcUnavailable(error) ? 503 : isAmbiguousChain(error) ? 400 : 500;
+  res.status(status).json({ error: error.message });
+}
+
 // Get market info (phase, pools, winner, etc.) - uses cache if enabled
 router.get('/:address/info', async (req, res) => {
   const { address } = req.params;
-  const provider = req.app.get('provider') as ethers.JsonRpcProvider;
   const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-  
+
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+
   try {
-    if (ENABLE_CACHE) {
-      const market = await Market.findOne({ marketAddress: address });
-      if (market && market.lastSyncedAt) {
-        // Check if cache is fresh (less than 30 seconds old)
-        const cacheAge = Date.now() - market.lastSyncedAt.getTime();
-        if (cacheAge < 30000) {
-          return res.json({
-            phase: market.phase ?? 0,
-            pools: {
-              A: market.poolA || '0',
-              B: market.poolB || '0',
-            },
-            winner: market.winner,
-            lockTime: market.lockTime,
-            resolveTime: market.resolveTime,
-            cached: true,
-          });
-        }
-      }
+    const target = await getMarketTarget(req, address);
+    if (!target) {
+      return res.status(400).json({ error: 'Unknown chainId' });
     }
-    
-    // Fetch from chain
-    const marketContract = new ethers.Contract(address, MARKET_ADMIN_ABI, provider);
-    const [phase, pools, winner, lockTime, resolveTime] = await Promise.all([
-      marketContract.phase() as Promise<bigint>,
-      marketContract.pools() as Promise<{ A: bigint; B: bigint } | [bigint, bigint]>,
-      marketContract.winner() as Promise<bigint>,
-      marketContract.lockTime() as Promise<bigint>,
-      marketContract.resolveTime() as Promise<bigint>,
-    ]);
-
-    const poolA = 'A' in pools ? pools.A : (pools as [bigint, bigint])[0];
-    const poolB = 'B' in pools ? pools.B : (pools as [bigint, bigint])[1];
-
-    // Update cache if enabled
-    if (ENABLE_CACHE) {
-      await syncMarketToCache(address, provider);
+    const { chainId, marketAddress } = target;
+
+    const result = await marketCache.get({ chainId, marketAddress }, { enabled: ENABLE_CACHE });
+    if (!result) {
+      return res.status(404).json({ error: 'No market contract at address' });
     }
 
+    const state = result.value;
     res.json({
-      phase: Number(phase),
+      chainId,
+      phase: state.phase,
       pools: {
-        A: poolA.toString(),
-        B: poolB.toString(),
+        A: state.poolA.toString(),
+        B: state.poolB.toString(),
       },
-      winner: Number(winner) > 0 ? Number(winner) : undefined,
-      lockTime: Number(lockTime),
-      resolveTime: Number(resolveTime),
-      cached: false,
+      winner: state.winner > 0 ? state.winner : undefined,
+      lockTime: state.lockTime,
+      resolveTime: state.resolveTime,
+      ...formatCacheInfo(result),
     });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
+  }
+});
+
+// Quote a deposit: implied odds, expected payout if the side wins and price impact
+router.get('/:address/quote', async (req, res) => {
+  const { address } = req.params;
+  const { side, amount } = req.query;
+  const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
+
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (side !== 'A' && side !== 'B') {
+    return res.status(400).json({ error: 'side must be A or B' });
+  }
+
+  let amountWei: bigint;
+  try {
+    amountWei = ethers.parseEther(String(amount ?? ''));
+  } catch {
+    return res.status(400).json({ error: 'amount must be a token amount (e.g. 10 or 2.5)' });
+  }
+  if (amountWei <= 0n) {
+    return res.status(400).json({ error: 'amount must be greater than 0' });
+  }
+
+  try {
+    const target = await getMarketTarget(req, address);
+    if (!target) {
+      return res.status(400).json({ error: 'Unknown chainId' });
+    }
+    const { chainId, marketAddress } = target;
+
+    const result = await marketCache.get({ chainId, marketAddress }, { enabled: ENABLE_CACHE });
+    if (!result) {
+      return res.status(404).json({ error: 'No market contract at address' });
+    }
+    const { poolA, poolB } = result.value;
+
+    const feeBps = await getProtocolFeeBps(chainId);
+    res.json({
+      chainId,
+      pools: { A: poolA.toString(), B: poolB.toString() },
+      ...quoteDeposit(poolA, poolB, side, amountWei, feeBps),
+      ...formatCacheInfo(result),
+    });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// Accepts ISO dates or Unix seconds
+function parseTime(value: unknown): Date | null {
+  if (value === undefined || value === '') return null;
+  const str = String(value);
+  const date = /^\d+$/.test(str) ? new Date(parseInt(str, 10) * 1000) : new Date(str);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Bucketed pool sizes and implied odds for charting
+router.get('/:address/history', async (req, res) => {
+  const { address } = req.params;
+  const bucket = (req.query.bucket || '5m') as string;
+
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (!(bucket in HISTORY_BUCKETS)) {
+    return res.status(400).json({ error: `bucket must be one of ${Object.keys(HISTORY_BUCKETS).join(', ')}` });
+  }
+  const to = req.query.to !== undefined ? parseTime(req.query.to) : new Date();
+  const defaultRange = bucket === '5m' ? 24 * 60 * 60 * 1000 : 7 * 24 * 60 * 60 * 1000;
+  const from = req.query.from !== undefined ? parseTime(req.query.from) : new Date((to?.getTime() ?? 0) - defaultRange);
+  if (!from || !to || from > to) {
+    return res.status(400).json({ error: 'from and to must be ISO dates or Unix seconds with from <= to' });
+  }
+
+  try {
+    const target = await getMarketTarget(req, address);
+    if (!target) {
+      return res.status(400).json({ error: 'Unknown chainId' });
+    }
+    const market = await Market.findOne({ chainId: target.chainId, marketAddress: target.marketAddress }).lean();
+    if (!market) {
+      return res.status(404).json({ error: 'Market not found' });
+    }
+
+    const points = await getMarketHistory(market.chainId, market.marketAddress, from, to, bucket as HistoryBucket);
+    res.json({
+      chainId: market.chainId,
+      marketAddress: market.marketAddress,
+      bucket,
+      from,
+      to,
+      points,
+    });
+  } catch (error: any) {
+    const status = error.message?.startsWith('Range too large') || isAmbiguousChain(error) ? 400 : 500;
+    res.status(status).json({ error: error.message });
   }
 });
 
 // Get user investment for a market - uses cache if enabled
 router.get('/:address/user/:userAddress', async (req, res) => {
   const { address, userAddress } = req.params;
-  const provider = req.app.get('provider') as ethers.JsonRpcProvider;
   const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-  
+
+  if (!ethers.isAddress(address) || !ethers.isAddress(userAddress)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+
   try {
-    if (ENABLE_CACHE) {
-      const { UserInvestment } = await import('../db');
-      const investment = await UserInvestment.findOne({ marketAddress: address, userAddress });
-      if (investment && investment.lastSyncedAt) {
-        const cacheAge = Date.now() - investment.lastSyncedAt.getTime();
-        if (cacheAge < 30000) {
-          return res.json({
-            aClaims: investment.aClaims,
-            bClaims: investment.bClaims,
-            redeemed: investment.redeemed,
-            cached: true,
-          });
-        }
-      }
+    const target = await getMarketTarget(req, address);
+    if (!target) {
+      return res.status(400).json({ error: 'Unknown chainId' });
     }
-    
-    // Fetch from chain
-    const marketContract = new ethers.Contract(address, MARKET_ADMIN_ABI, provider);
-    const accountInfo = await marketContract.a(userAddress) as Promise<[bigint, bigint, boolean]>;
-    const [aClaims, bClaims, redeemed] = await accountInfo;
-
-    // Update cache if enabled
-    if (ENABLE_CACHE) {
-      await syncUserInvestmentToCache(address, userAddress, provider);
+    const { chainId, marketAddress } = target;
+
+    const result = await investmentCache.get({ chainId, marketAddress, userAddress }, { enabled: ENABLE_CACHE });
+    if (!result) {
+      return res.status(404).json({ error: 'No market contract at address' });
     }
 
     res.json({
-      aClaims: aClaims.toString(),
-      bClaims: bClaims.toString(),
-      redeemed,
-      cached: false,
+      chainId,
+      aClaims: result.value.aClaims.toString(),
+      bClaims: result.value.bClaims.toString(),
+      redeemed: result.value.redeemed,
+      ...formatCacheInfo(result),
     });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
-// Get all markets
+const MARKET_STATUSES = ['trading', 'locked', 'resolved', 'cancelled'];
+
+// Round ids for ?deployment= (current round by default, "all", a round id or a YYYY-MM-DD day).
+// Rounds are per chain, so "current" is the current round of the given chain or of every chain.
+async function resolveDeployment(deployment: string, chainId?: number): Promise<string[] | undefined | null> {
+  if (deployment === 'all') return undefined;
+  const chainFilter = chainId !== undefined ? { chainId } : {};
+  if (deployment === 'current') {
+    const chainIds = chainId !== undefined ? [chainId] : getChains().map(chain => chain.chainId);
+    const rounds = await Promise.all(chainIds.map(id => getCurrentRound(id)));
+    return rounds.flatMap(round => (round ? [round.roundId] : []));
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(deployment)) {
+    const date = new Date(`${deployment}T00:00:00.000Z`);
+    if (isNaN(date.getTime())) return null;
+    return Round.distinct('roundId', { ...chainFilter, deploymentDate: date });
+  }
+  return (await Round.exists({ ...chainFilter, roundId: deployment })) ? [deployment] : null;
+}
+
+// List markets (?chainId=, ?type=, ?status=, ?project=, ?deployment=, ?minPool=, ?sort=, ?order=, ?limit=, ?cursor=)
 router.get('/', async (req, res) => {
-  const provider = req.app.get('provider') as ethers.JsonRpcProvider;
   const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
-  
-  // Find the latest deployment (highest date + index)
-  const latestDeployment = await Market.findOne()
-    .sort({ deploymentDate: -1, deploymentIndex: -1 })
-    .select('deploymentDate deploymentIndex')
-    .lean();
-  
-  let markets;
-  if (!latestDeployment || !latestDeployment.deploymentDate) {
-    // No deployment tracking, return all (backward compatibility)
-    markets = await Market.find().sort({ lockTime: 1 });
-  } else {
-    // Only return markets from the latest deployment
-    markets = await Market.find({
-      deploymentDate: latestDeployment.deploymentDate,
-      deploymentIndex: latestDeployment.deploymentIndex,
-    }).sort({ lockTime: 1 });
-  }
-  
-  // Return cached data immediately
-  console.log(`📊 Returning ${markets.length} markets (cached)`);
-  res.json(markets);
-  
+  const ENABLE_INDEXER = req.app.get('ENABLE_INDEXER') as boolean;
+
+  const query = Object.fromEntries(Object.entries(req.query).map(([key, value]) => [key, String(value)]));
+  const sort = (query.sort || 'lockTime') as MarketSort;
+  const order = query.order || (sort === 'lockTime' ? 'asc' : 'desc');
+  const limit = query.limit ? parseInt(query.limit, 10) : 50;
+  const deployment = query.deployment || 'current';
+  // All chains unless ?chainId= is given
+  const chainId = query.chainId ? Number(query.chainId) : undefined;
+
+  if (chainId !== undefined && !getChain(chainId)) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  if (query.type && query.type !== 'top10' && query.type !== 'h2h') {
+    return res.status(400).json({ error: 'type must be top10 or h2h' });
+  }
+  if (query.status && !MARKET_STATUSES.includes(query.status)) {
+    return res.status(400).json({ error: `status must be one of ${MARKET_STATUSES.join(', ')}` });
+  }
+  if (!MARKET_SORTS.includes(sort)) {
+    return res.status(400).json({ error: `sort must be one of ${MARKET_SORTS.join(', ')}` });
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    return res.status(400).json({ error: 'order must be asc or desc' });
+  }
+  if (isNaN(limit) || limit < 1 || limit > 200) {
+    return res.status(400).json({ error: 'limit must be between 1 and 200' });
+  }
+  if (query.cursor && !decodeCursor(query.cursor)) {
+    return res.status(400).json({ error: 'Invalid cursor' });
+  }
+  let minPool: bigint | undefined;
+  if (query.minPool) {
+    try {
+      minPool = ethers.parseEther(query.minPool);
+    } catch {
+      return res.status(400).json({ error: 'minPool must be a token amount (e.g. 100 or 2.5)' });
+    }
+  }
+
+  let roundIds: string[] | undefined | null;
+  try {
+    roundIds = await resolveDeployment(deployment, chainId);
+    if (roundIds === null) {
+      return res.status(404).json({ error: 'Deployment not found' });
+    }
+    // Slugs and aliases match every name the project's markets were created with
+    let projectNames: string[] | undefined;
+    if (query.project) {
+      const project = await findProject(query.project);
+      projectNames = project ? await findProjectMarketNames(project) : [query.project];
+    }
+
+    const result = await listMarkets({
+      type: query.type as MarketListOptions['type'],
+      status: query.status,
+      projectNames,
+      roundIds,
+      chainId,
+      minPool,
+      sort,
+      order,
+      limit,
+      cursor: query.cursor,
+    });
+    res.json({ deployment, ...result });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  // Past deployments aren't synced, only the current round
+  if (deployment !== 'current' || !roundIds?.length) return;
+
   // Sync in background (fire and forget)
+  if (ENABLE_INDEXER) {
+    // Event indexer keeps markets in sync, no polling needed
+    return;
+  }
+  const chainFilter = chainId !== undefined ? { chainId } : {};
   if (!ENABLE_CACHE) {
     // Always sync if cache disabled
-    syncMarketPhases(provider).catch(err => console.error('Background sync error:', err));
+    const chainIds: number[] = await Market.distinct('chainId', { roundId: { $in: roundIds }, ...chainFilter });
+    for (const id of chainIds) {
+      syncMarketPhases(getProvider(id)).catch(err => console.error('Background sync error:', err));
+    }
   } else {
-    // Check if cache needs refresh (any market cache older than 30s)
-    const staleMarkets = await Market.find({
+    // Check if cache needs refresh (any market cache older than the market TTL), per chain
+    const staleChainIds: number[] = await Market.distinct('chainId', {
+      roundId: { $in: roundIds },
+      ...chainFilter,
       $or: [
         { lastSyncedAt: { $exists: false } },
-        { lastSyncedAt: { $lt: new Date(Date.now() - 30000) } }
+        { lastSyncedAt: { $lt: new Date(Date.now() - getCacheConfig().ttlMs.market) } }
       ]
-    }).limit(1);
+    });
     
-    if (staleMarkets.length > 0) {
-      console.log(`🔄 Cache stale, syncing markets in background...`);
-      syncMarketPhases(provider).catch(err => console.error('Background sync error:', err));
+    if (staleChainIds.length > 0) {
+      console.log(`🔄 Cache stale, syncing markets on chains ${staleChainIds.join(', ')} in background...`);
+      for (const id of staleChainIds) {
+        syncMarketPhases(getProvider(id)).catch(err => console.error('Background sync error:', err));
+      }
     } else {
       console.log(`✅ Cache is fresh, skipping sync`);
     }
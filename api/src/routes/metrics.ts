@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { getRpcStatus } from '../utils/chains';
+import { renderMetrics, rpcEndpointUp } from '../utils/metrics';
+import { requireMetricsAccess } from '../utils/auth';
+
+const router = Router();
+
+// Prometheus scrape endpoint
+router.get('/', requireMetricsAccess(), (req, res) => {
+  try {
+    // Circuit states are read from the providers at scrape time
+    rpcEndpointUp.reset();
+    for (const chain of getRpcStatus()) {
+      for (const endpoint of chain.endpoints) {
+        rpcEndpointUp.set({ chain_id: chain.chainId, endpoint: endpoint.host }, endpoint.state === 'closed' ? 1 : 0);
+      }
+    }
+
+    res.type('text/plain; version=0.0.4').send(renderMetrics());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import { Project, Market } from '../db';
+import { toProjectSlug } from '../utils/constants';
+import { requireRole } from '../utils/auth';
+import {
+  findProject,
+  findKeyConflicts,
+  normalizeAliases,
+  formatProject,
+  findProjectMarketNames,
+  marketProjectFilter,
+} from '../utils/projects';
+
+const router = Router();
+
+// List projects (?category=, ?q= matches name, slug or alias)
+router.get('/', async (req, res) => {
+  const { category, q } = req.query;
+  try {
+    const filter: Record<string, unknown> = {};
+    if (category) filter.category = String(category);
+    if (q) {
+      const key = toProjectSlug(String(q));
+      filter.$or = [{ slug: { $regex: key } }, { aliases: { $regex: key } }];
+    }
+    const projects = await Project.find(filter).sort({ name: 1 }).lean();
+    res.json(projects.map(formatProject));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Look up by slug, name or alias
+router.get('/:slug', async (req, res) => {
+  try {
+    const project = await findProject(req.params.slug);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.json(formatProject(project));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const { name, slug: requestedSlug, aliases, logo, category } = req.body;
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'name required' });
+  }
+  const slug = toProjectSlug(requestedSlug || name);
+  if (!slug) {
+    return res.status(400).json({ error: 'name must contain letters or digits' });
+  }
+
+  try {
+    // The display name always resolves to the project, even with a custom slug
+    const keys = [slug, ...normalizeAliases([...(aliases ?? []), name], slug)];
+    const conflicts = await findKeyConflicts(keys);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: `Already used by another project: ${conflicts.join(', ')}` });
+    }
+
+    const project = await Project.create({ slug, name: name.trim(), aliases: keys.slice(1), logo, category });
+    console.log(`🏷️  Registered project ${project.name} (${project.slug})`);
+    res.status(201).json(formatProject(project));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update name, aliases, logo or category. The slug never changes; a renamed project keeps its old name as an alias.
+router.put('/:slug', requireRole('admin'), async (req, res) => {
+  const { name, aliases, logo, category } = req.body;
+  try {
+    const project = await Project.findOne({ slug: toProjectSlug(req.params.slug) });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const nextName = typeof name === 'string' && name.trim() ? name.trim() : project.name;
+    const nextAliases = normalizeAliases(
+      [...(Array.isArray(aliases) ? aliases : project.aliases), nextName, ...(nextName !== project.name ? [project.name] : [])],
+      project.slug
+    );
+    const conflicts = await findKeyConflicts(nextAliases, project._id);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: `Already used by another project: ${conflicts.join(', ')}` });
+    }
+
+    project.name = nextName;
+    project.aliases = nextAliases;
+    if (logo !== undefined) project.logo = logo;
+    if (category !== undefined) project.category = category;
+    await project.save();
+    res.json(formatProject(project));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.delete('/:slug', requireRole('admin'), async (req, res) => {
+  try {
+    const project = await Project.findOne({ slug: toProjectSlug(req.params.slug) });
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Markets reference projects by display name, possibly one from before a rename
+    const inUse = await Market.countDocuments(marketProjectFilter(await findProjectMarketNames(project)));
+    if (inUse > 0) {
+      return res.status(409).json({ error: `Project is used by ${inUse} markets` });
+    }
+
+    await project.deleteOne();
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
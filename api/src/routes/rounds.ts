@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { Market, Round, RoundStatus } from '../db';
+import { toMarketDto } from '../utils/markets';
+import { formatRound, getCurrentRound } from '../utils/rounds';
+import { getChain, getRequestChainId } from '../utils/chains';
+
+const router = Router();
+
+const ROUND_STATUSES: RoundStatus[] = ['open', 'locked', 'resolved', 'archived'];
+
+async function countMarkets(roundIds: string[]) {
+  const counts = await Market.aggregate<{ _id: string; count: number }>([
+    { $match: { roundId: { $in: roundIds } } },
+    { $group: { _id: '$roundId', count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map(c => [c._id, c.count]));
+}
+
+// List rounds, newest first (?chainId=, ?status=, ?limit=)
+router.get('/', async (req, res) => {
+  const status = req.query.status ? String(req.query.status) : undefined;
+  const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : 20;
+  // All chains unless ?chainId= is given
+  const chainId = req.query.chainId ? Number(req.query.chainId) : undefined;
+  if (chainId !== undefined && !getChain(chainId)) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+  if (status && !ROUND_STATUSES.includes(status as RoundStatus)) {
+    return res.status(400).json({ error: `status must be one of ${ROUND_STATUSES.join(', ')}` });
+  }
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return res.status(400).json({ error: 'limit must be between 1 and 100' });
+  }
+
+  try {
+    const rounds = await Round.find({
+      ...(chainId !== undefined && { chainId }),
+      ...(status && { status }),
+    })
+      .sort({ deploymentDate: -1, deploymentIndex: -1 })
+      .limit(limit)
+      .lean();
+    const counts = await countMarkets(rounds.map(r => r.roundId));
+    res.json(rounds.map(r => formatRound(r, counts.get(r.roundId) ?? 0)));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The round of a chain whose markets are listed by GET /api/markets (?chainId=, default chain otherwise)
+router.get('/current', async (req, res) => {
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    const round = await getCurrentRound(chainId);
+    if (!round) {
+      return res.status(404).json({ error: 'No current round' });
+    }
+    const counts = await countMarkets([round.roundId]);
+    res.json(formatRound(round, counts.get(round.roundId) ?? 0));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const round = await Round.findOne({ roundId: req.params.id }).lean();
+    if (!round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+    const counts = await countMarkets([round.roundId]);
+    res.json(formatRound(round, counts.get(round.roundId) ?? 0));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Markets of any round, including archived ones (cached state, not synced)
+router.get('/:id/markets', async (req, res) => {
+  try {
+    const round = await Round.findOne({ roundId: req.params.id }).lean();
+    if (!round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+    const markets = await Market.find({ roundId: round.roundId }).sort({ lockTime: 1 }).lean();
+    res.json({
+      round: formatRound(round, markets.length),
+      markets: markets.map(m => toMarketDto(m)),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
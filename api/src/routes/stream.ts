@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { getEventsSince, isValidChannel, normalizeChannel, subscribe, StreamEvent } from '../utils/stream';
+
+const router = Router();
+
+const HEARTBEAT_MS = 25000;
+
+// Server-Sent Events: GET /api/stream?channels=markets:all,market:0x...,leaderboard,user:0x...
+router.get('/', (req, res) => {
+  const channels = String(req.query.channels || 'markets:all,leaderboard')
+    .split(',')
+    .filter(Boolean)
+    .map(normalizeChannel);
+  const invalid = channels.filter(c => !isValidChannel(c));
+  if (channels.length === 0 || invalid.length > 0) {
+    return res.status(400).json({
+      error: `Invalid channels: ${invalid.join(', ')}. Use markets:all, leaderboard, market:<address> or user:<address>`,
+    });
+  }
+
+  // Browsers resend the last id as a header; lastEventId query param for clients that can't set headers
+  const lastEventIdRaw = req.get('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+  const lastEventId = lastEventIdRaw ? parseInt(lastEventIdRaw, 10) : NaN;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  const send = (event: StreamEvent) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...(event.data as object), timestamp: event.timestamp })}\n\n`);
+  };
+
+  // Replay what the client missed while disconnected
+  if (!isNaN(lastEventId)) {
+    const { events, complete } = getEventsSince(lastEventId, channels);
+    if (!complete) {
+      // Too far behind to replay everything - client should refetch current state
+      res.write(`event: resync\ndata: ${JSON.stringify({ reason: 'Events since last id are no longer available' })}\n\n`);
+    }
+    events.forEach(send);
+  }
+
+  const unsubscribe = subscribe(channels, send);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
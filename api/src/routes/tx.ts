@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import { PendingTransaction } from '../db';
+import { formatTransaction } from '../utils/txManager';
+
+const router = Router();
+
+// Status of a transaction queued by the backend (faucet, close, resolve)
+router.get('/:id', async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.isValidObjectId(id)) {
+    return res.status(400).json({ error: 'Invalid transaction id' });
+  }
+
+  try {
+    const tx = await PendingTransaction.findById(id);
+    if (!tx) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    res.json(formatTransaction(tx));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,52 +1,62 @@
 import { Router } from 'express';
 import { ethers } from 'ethers';
-import { UserBalance, Contract } from '../db';
-import { STAKE_TOKEN_ABI } from '../utils/constants';
-import { syncUserBalanceToCache } from '../utils/sync';
+import { balanceCache } from '../utils/sync';
+import { getPortfolio } from '../utils/portfolio';
+import { getProvider, getRequestChainId } from '../utils/chains';
+import { isRpcUnavailable } from '../utils/rpc';
+import { formatCacheInfo } from '../utils/cache';
 
 const router = Router();
 
-// Get user balance - uses cache if enabled
+// Get user balance on a chain (?chainId=, default chain otherwise) - uses cache if enabled
 router.get('/:address/balance', async (req, res) => {
   const { address } = req.params;
-  const provider = req.app.get('provider') as ethers.JsonRpcProvider;
   const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
+  const chainId = getRequestChainId(req);
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
   
   try {
-    if (ENABLE_CACHE) {
-      const balanceDoc = await UserBalance.findOne({ userAddress: address });
-      if (balanceDoc && balanceDoc.lastSyncedAt) {
-        const cacheAge = Date.now() - balanceDoc.lastSyncedAt.getTime();
-        if (cacheAge < 30000) {
-          return res.json({
-            balance: balanceDoc.balance,
-            cached: true,
-          });
-        }
-      }
-    }
-    
-    // Fetch from chain
-    const contracts = await Contract.find();
-    const stakeTokenContract = contracts.find(c => c.type === 'stakeToken');
-    if (!stakeTokenContract) {
+    const result = await balanceCache.get({ chainId, userAddress: address }, { enabled: ENABLE_CACHE });
+    if (!result) {
       return res.status(404).json({ error: 'Stake token not found' });
     }
 
-    const stakeToken = new ethers.Contract(stakeTokenContract.address, STAKE_TOKEN_ABI, provider);
-    const balance = await stakeToken.balanceOf(address) as Promise<bigint>;
+    res.json({
+      chainId,
+      balance: result.value.toString(),
+      ...formatCacheInfo(result),
+    });
+  } catch (error: any) {
+    const status = isRpcUnavailable(error) ? 503 : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
 
-    // Update cache if enabled
-    if (ENABLE_CACHE) {
-      await syncUserBalanceToCache(address, provider);
-    }
+// Get all positions for a user across markets of one chain (?chainId=, default chain otherwise)
+// Pass discover=true to also scan the latest deployment for positions not cached yet
+router.get('/:address/portfolio', async (req, res) => {
+  const { address } = req.params;
+  const ENABLE_CACHE = req.app.get('ENABLE_CACHE') as boolean;
+  const chainId = getRequestChainId(req);
 
-    res.json({
-      balance: (await balance).toString(),
-      cached: false,
+  if (!ethers.isAddress(address)) {
+    return res.status(400).json({ error: 'Invalid address' });
+  }
+  if (chainId === null) {
+    return res.status(400).json({ error: 'Unknown chainId' });
+  }
+
+  try {
+    const portfolio = await getPortfolio(address, getProvider(chainId), {
+      discover: req.query.discover === 'true',
+      enableCache: ENABLE_CACHE,
     });
+    res.json(portfolio);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    const status = isRpcUnavailable(error) ? 503 : 500;
+    res.status(status).json({ error: error.message });
   }
 });
 
@@ -0,0 +1,92 @@
+/// <reference types="node" />
+// Compare RPC round trips and latency of market state reads against a local node.
+//
+//   npm run bench:sync -- 0xMarket1 0xMarket2 ...
+//
+// Without addresses, markets from the node's chain's current round in MongoDB are used.
+// Set MULTICALL_ADDRESS to include the multicall mode.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { connectToDatabase } from '../db';
+import { MARKET_ADMIN_ABI } from '../utils/constants';
+import { getCurrentRoundMarkets } from '../utils/rounds';
+import { readMarketStates } from '../utils/sync';
+
+dotenv.config();
+
+const RPC_URL = process.env.BENCH_RPC_URL || 'http://127.0.0.1:8545';
+const ITERATIONS = parseInt(process.env.BENCH_ITERATIONS || '3', 10);
+
+let roundTrips = 0;
+let requests = 0;
+
+// The old syncMarketPhases: one market at a time, getCode then the state calls
+async function readSequentially(addresses: string[], provider: ethers.JsonRpcProvider) {
+  for (const address of addresses) {
+    const code = await provider.getCode(address);
+    if (code === '0x') continue;
+    const contract = new ethers.Contract(address, MARKET_ADMIN_ABI, provider);
+    await Promise.all([contract.phase(), contract.pools(), contract.winner()]);
+  }
+}
+
+async function measure(name: string, run: () => Promise<unknown>) {
+  const timings: number[] = [];
+  let trips = 0;
+  let calls = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    roundTrips = 0;
+    requests = 0;
+    const start = performance.now();
+    await run();
+    timings.push(performance.now() - start);
+    trips = roundTrips;
+    calls = requests;
+  }
+  const avg = timings.reduce((a, b) => a + b, 0) / timings.length;
+  console.log(`  ${name.padEnd(12)} ${avg.toFixed(1).padStart(8)} ms avg  ${String(trips).padStart(5)} round trips  ${String(calls).padStart(5)} RPC requests`);
+}
+
+async function main() {
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const network = await provider.getNetwork();
+
+  let addresses = process.argv.slice(2).filter(arg => ethers.isAddress(arg));
+  if (addresses.length === 0) {
+    await connectToDatabase(process.env.MONGO_URI || 'mongodb://127.0.0.1:27017/mindshare');
+    addresses = (await getCurrentRoundMarkets(Number(network.chainId))).map(m => m.marketAddress);
+    await mongoose.disconnect();
+  }
+  if (addresses.length === 0) {
+    console.error('❌ No market addresses given and none found in the database');
+    process.exit(1);
+  }
+  provider.on('debug', (info: { action: string; payload?: unknown }) => {
+    if (info.action !== 'sendRpcPayload') return;
+    roundTrips++;
+    requests += Array.isArray(info.payload) ? info.payload.length : 1;
+  });
+
+  const multicallAddress = process.env.MULTICALL_ADDRESS;
+  console.log(`📊 Reading ${addresses.length} markets from ${RPC_URL} (${ITERATIONS} iterations)`);
+
+  await measure('sequential', () => readSequentially(addresses, provider));
+
+  delete process.env.MULTICALL_ADDRESS;
+  await measure('parallel', () => readMarketStates(addresses, provider));
+
+  if (multicallAddress) {
+    process.env.MULTICALL_ADDRESS = multicallAddress;
+    await measure('multicall', () => readMarketStates(addresses, provider));
+  } else {
+    console.log('  ⚠️  MULTICALL_ADDRESS not set - skipping multicall mode');
+  }
+
+  provider.destroy();
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+/// <reference types="node" />
+// Exercise market deployment against a local Anvil or Hardhat node: deploy (or reuse) a factory,
+// deploy a top10 and an h2h market through the same code as POST /api/admin/markets/deploy, then
+// check that they were imported and that deploying the same questions again is refused.
+//
+//   CHAIN_ID=31337 RPC_URL=http://127.0.0.1:8545 ADMIN_PRIVATE_KEY=0x... \
+//   FACTORY_ARTIFACT=path/to/MarketFactory.json npm run test:deploy
+//
+// FACTORY_ARTIFACT is a Foundry or Hardhat artifact (abi + bytecode), deployed with the JSON array
+// in FACTORY_ARGS. Set FACTORY_ADDRESS instead to use a factory that is already deployed.
+import fs from 'fs/promises';
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { connectToDatabase, Contract, Market, Project } from '../db';
+import { getDefaultChainId, getProvider } from '../utils/chains';
+import { deployMarkets, MarketSpec } from '../utils/deployment';
+import { getSigner, monitorTransactions } from '../utils/txManager';
+
+dotenv.config();
+
+async function getFactoryAddress(provider: ethers.JsonRpcProvider) {
+  if (process.env.FACTORY_ADDRESS) return process.env.FACTORY_ADDRESS;
+  if (!process.env.FACTORY_ARTIFACT) {
+    throw new Error('Set FACTORY_ARTIFACT (contract artifact to deploy) or FACTORY_ADDRESS');
+  }
+
+  const artifact = JSON.parse(await fs.readFile(process.env.FACTORY_ARTIFACT, 'utf8'));
+  const bytecode = typeof artifact.bytecode === 'string' ? artifact.bytecode : artifact.bytecode?.object;
+  if (!artifact.abi || !bytecode) {
+    throw new Error(`${process.env.FACTORY_ARTIFACT} has no abi or bytecode`);
+  }
+  const args = JSON.parse(process.env.FACTORY_ARGS || '[]');
+  const factory = await new ethers.ContractFactory(artifact.abi, bytecode, getSigner('admin', provider)).deploy(...args);
+  await factory.waitForDeployment();
+  const address = await factory.getAddress();
+  console.log(`🏭 Deployed factory at ${address}`);
+  return address;
+}
+
+async function main() {
+  await connectToDatabase(process.env.MONGO_URI || 'mongodb://127.0.0.1:27017/mindshare');
+  const chainId = getDefaultChainId();
+  const provider = getProvider(chainId);
+
+  const factoryAddress = await getFactoryAddress(provider);
+  await Contract.findOneAndUpdate(
+    { type: 'factory', chainId },
+    { type: 'factory', chainId, address: factoryAddress },
+    { upsert: true }
+  );
+
+  const projects = await Project.find().sort({ name: 1 }).limit(3).lean();
+  if (projects.length < 3) {
+    throw new Error('Need at least 3 registered projects (start the API once to seed them)');
+  }
+  const latest = await provider.getBlock('latest');
+  const lockTime = (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + 600;
+  // A fresh resolveTime makes fresh questions, so the script can run repeatedly on one node
+  const resolveTime = lockTime + 600 + Math.floor(Math.random() * 100000);
+  const specs: MarketSpec[] = [
+    { type: 'top10', projectName: projects[0].name, lockTime, resolveTime },
+    { type: 'h2h', projectA: projects[1].name, projectB: projects[2].name, lockTime, resolveTime },
+  ];
+
+  // Mark transactions mined while deployMarkets waits for them (the server does this on a timer)
+  const monitor = setInterval(() => {
+    monitorTransactions(provider).catch(error => console.error('❌ Monitor error:', error.message || error));
+  }, 1000);
+
+  let failures = 0;
+  try {
+    const first = await deployMarkets(provider, specs);
+    for (const result of first.results) {
+      const stored = result.marketAddress
+        ? await Market.exists({ chainId, marketAddress: result.marketAddress, roundId: first.roundId })
+        : null;
+      const ok = result.status === 'deployed' && !!stored;
+      if (!ok) failures++;
+      console.log(`${ok ? '✅' : '❌'} ${result.market}: ${result.status}${result.marketAddress ? ` at ${result.marketAddress}` : ''}${result.error ? ` (${result.error})` : ''}`);
+    }
+
+    const again = await deployMarkets(provider, specs);
+    for (const result of again.results) {
+      const ok = result.status === 'invalid';
+      if (!ok) failures++;
+      console.log(`${ok ? '✅' : '❌'} ${result.market} again: ${result.status}${result.error ? ` (${result.error})` : ''}`);
+    }
+    if (again.roundId !== null) {
+      failures++;
+      console.log(`❌ Repeated deployment created round ${again.roundId}`);
+    }
+  } finally {
+    clearInterval(monitor);
+  }
+
+  await mongoose.disconnect();
+  provider.destroy();
+  if (failures > 0) {
+    throw new Error(`${failures} checks failed`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Deployment check failed:', error.message || error);
+  process.exit(1);
+});
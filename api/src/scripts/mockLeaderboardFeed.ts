@@ -0,0 +1,51 @@
+/// <reference types="node" />
+// Local leaderboard feed for testing HTTP ingestion. Serves the seeded leaderboard in a
+// third-party shape and swaps two neighbouring projects every MOCK_FEED_CHANGE_MS.
+//
+//   npm run mock:feed
+//   INGEST_SOURCES=http INGEST_HTTP_URL=http://127.0.0.1:4010/leaderboard \
+//   INGEST_HTTP_MAPPING='{"items":"data.projects","name":"project_name","rank":"position","score":"mindshare","logo":"image"}'
+import express from 'express';
+import { FULL_LEADERBOARD } from '../db';
+
+const PORT = parseInt(process.env.MOCK_FEED_PORT || '4010', 10);
+const CHANGE_MS = parseInt(process.env.MOCK_FEED_CHANGE_MS || '60000', 10);
+
+// Scores stay attached to positions so they keep falling as rank rises
+const scores = FULL_LEADERBOARD.map(e => e.score);
+const projects = FULL_LEADERBOARD.map(e => ({ name: e.name, logo: e.logo }));
+let updatedAt = new Date();
+
+function swapNeighbours() {
+  const i = Math.floor(Math.random() * Math.min(20, projects.length - 1));
+  [projects[i], projects[i + 1]] = [projects[i + 1], projects[i]];
+  updatedAt = new Date();
+  console.log(`🔀 Swapped #${i + 1} and #${i + 2}: ${projects[i].name} now ahead of ${projects[i + 1].name}`);
+}
+
+const app = express();
+
+app.get('/leaderboard', (req, res) => {
+  res.json({
+    updatedAt,
+    data: {
+      projects: projects.map((p, i) => ({
+        project_name: p.name,
+        position: i + 1,
+        mindshare: scores[i],
+        image: p.logo,
+      })),
+    },
+  });
+});
+
+// Force a change without waiting for the timer
+app.post('/shuffle', (req, res) => {
+  swapNeighbours();
+  res.json({ success: true, updatedAt });
+});
+
+setInterval(swapNeighbours, CHANGE_MS);
+app.listen(PORT, () => {
+  console.log(`Mock leaderboard feed on http://127.0.0.1:${PORT}/leaderboard (changes every ${CHANGE_MS}ms)`);
+});
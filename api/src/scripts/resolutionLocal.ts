@@ -0,0 +1,69 @@
+/// <reference types="node" />
+// Check which leaderboard snapshot resolution uses when snapshots arrive out of date order: a
+// backfill for the previous day and a snapshot for the next day, both written shortly before
+// resolveTime, must not replace the resolve day's own snapshot.
+//
+//   MONGO_URI=mongodb://127.0.0.1:27017/mindshare npm run test:resolution
+//
+// Snapshots are written directly (dated 2099-01-01 to 2099-01-03) and removed afterwards.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { connectToDatabase, LeaderboardSnapshot } from '../db';
+import { findResolutionSnapshot } from '../utils/resolution';
+
+dotenv.config();
+
+const DAY = new Date('2099-01-02T00:00:00.000Z');
+const at = (hours: number) => new Date(DAY.getTime() + hours * 60 * 60 * 1000);
+
+// [date, index, createdAt]
+const SNAPSHOTS: Array<[Date, number, Date]> = [
+  [DAY, 0, at(9)],
+  [DAY, 1, at(10)],
+  [at(-24), 5, at(11)], // Backfill of the previous day
+  [at(24), 0, at(11.5)], // Next day's snapshot, posted early
+  [DAY, 2, at(13)], // Written after resolveTime
+];
+
+async function main() {
+  await connectToDatabase(process.env.MONGO_URI || 'mongodb://127.0.0.1:27017/mindshare');
+  const dates = [...new Set(SNAPSHOTS.map(([date]) => date.getTime()))].map(t => new Date(t));
+  const existing = await LeaderboardSnapshot.exists({ date: { $in: dates } });
+  if (existing) {
+    throw new Error('Snapshots dated 2099-01-01 to 2099-01-03 already exist; remove them first');
+  }
+
+  let failures = 0;
+  try {
+    // Straight to the collection, so createdAt can be set
+    await LeaderboardSnapshot.collection.insertMany(SNAPSHOTS.map(([date, index, createdAt]) => ({
+      date, index, createdAt, updatedAt: createdAt, hash: 'test', entryCount: 0, source: 'test', lockedBy: [],
+    })));
+
+    const cases: Array<[string, Date, number | null]> = [
+      ['resolve day, after backfill and next-day post', at(12), 1],
+      ['resolve day, between its own snapshots', at(9.5), 0],
+      ['resolve day, before any of its snapshots', at(8), null],
+    ];
+    for (const [name, resolveAt, expected] of cases) {
+      const snapshot = await findResolutionSnapshot(Math.floor(resolveAt.getTime() / 1000));
+      const picked = snapshot && snapshot.date.getTime() === DAY.getTime() ? snapshot.index : snapshot ? -1 : null;
+      const ok = picked === expected;
+      if (!ok) failures++;
+      const got = snapshot ? `${snapshot.date.toISOString().split('T')[0]} #${snapshot.index}` : 'none';
+      console.log(`${ok ? '✅' : '❌'} ${name}: ${got}`);
+    }
+  } finally {
+    await LeaderboardSnapshot.deleteMany({ date: { $in: dates }, source: 'test' });
+  }
+
+  await mongoose.disconnect();
+  if (failures > 0) {
+    throw new Error(`${failures} checks failed`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Resolution check failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+/// <reference types="node" />
+// Exercise the scheduler against a local Anvil or Hardhat node: move block time past the markets'
+// lockTime, run scheduler ticks until their close jobs finish, then check the on-chain phase.
+//
+//   CHAIN_ID=31337 RPC_URL=http://127.0.0.1:8545 ADMIN_PRIVATE_KEY=0x... \
+//   npm run test:scheduler -- 0xMarket1 0xMarket2 ...
+//
+// The markets must already be imported for CHAIN_ID. Without addresses, every trading market
+// stored for the chain is used.
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { connectToDatabase, Market, ScheduledJob } from '../db';
+import { getDefaultChainId, getProvider } from '../utils/chains';
+import { runScheduler } from '../utils/scheduler';
+import { readMarketStates } from '../utils/sync';
+import { monitorTransactions } from '../utils/txManager';
+
+dotenv.config();
+
+const MAX_TICKS = parseInt(process.env.SCHEDULER_TEST_TICKS || '30', 10);
+const TICK_MS = parseInt(process.env.SCHEDULER_TEST_TICK_MS || '1000', 10);
+
+async function main() {
+  await connectToDatabase(process.env.MONGO_URI || 'mongodb://127.0.0.1:27017/mindshare');
+  const chainId = getDefaultChainId();
+  const provider = getProvider(chainId);
+  // Scheduler runs must not wait out the backoff between attempts
+  process.env.SCHEDULER_BACKOFF_MS ||= '0';
+
+  const args = process.argv.slice(2).filter(arg => ethers.isAddress(arg));
+  const markets = await Market.find({
+    chainId,
+    ...(args.length > 0
+      ? { marketAddress: { $in: args.flatMap(a => [a, a.toLowerCase(), ethers.getAddress(a)]) } }
+      : { phase: 0 }),
+  }).lean();
+  if (markets.length === 0) {
+    throw new Error(`No markets found on chain ${chainId}`);
+  }
+  const addresses = markets.map(m => m.marketAddress);
+
+  // Time travel just past the latest lockTime
+  const latest = await provider.getBlock('latest');
+  const target = Math.max(...markets.map(m => m.lockTime)) + 1;
+  if (latest && latest.timestamp < target) {
+    await provider.send('evm_increaseTime', [target - latest.timestamp]);
+    await provider.send('evm_mine', []);
+    console.log(`⏩ Moved block time forward ${target - latest.timestamp}s`);
+  }
+
+  for (let tick = 1; tick <= MAX_TICKS; tick++) {
+    const result = await runScheduler(provider, false);
+    await monitorTransactions(provider);
+    const open = await ScheduledJob.countDocuments({
+      chainId,
+      action: 'close',
+      marketAddress: { $in: addresses },
+      status: { $in: ['pending', 'running', 'submitted'] },
+    });
+    console.log(`  tick ${tick}: ran ${result.ran}, finished ${result.finished}, ${open} close jobs open`);
+    if (open === 0) break;
+    await new Promise(resolve => setTimeout(resolve, TICK_MS));
+  }
+
+  const [jobs, states] = await Promise.all([
+    ScheduledJob.find({ chainId, action: 'close', marketAddress: { $in: addresses } }).lean(),
+    readMarketStates(addresses, provider),
+  ]);
+  let failures = 0;
+  addresses.forEach((address, i) => {
+    const job = jobs.find(j => j.marketAddress === address);
+    const phase = states[i]?.phase;
+    const ok = job?.status === 'done' && phase === 1;
+    if (!ok) failures++;
+    console.log(`${ok ? '✅' : '❌'} ${address}: job ${job?.status ?? 'missing'}${job?.lastError ? ` (${job.lastError})` : ''}, phase ${phase ?? 'unknown'}`);
+  });
+
+  await mongoose.disconnect();
+  provider.destroy();
+  if (failures > 0) {
+    throw new Error(`${failures} of ${addresses.length} markets were not closed`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Scheduler check failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ethers } from 'ethers';
+import { Operator, AuthChallenge, AuthSession } from '../db';
+
+// admin: everything; oracle: post leaderboard snapshots; deployer: update contract addresses
+export const ROLES = ['admin', 'oracle', 'deployer'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthenticatedOperator {
+  address: string;
+  roles: string[];
+}
+
+export const AUTH_DOMAIN = { name: 'Mindshare', version: '1' };
+
+export const AUTH_TYPES = {
+  OperatorLogin: [
+    { name: 'address', type: 'address' },
+    { name: 'nonce', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+function getAuthConfig() {
+  return {
+    challengeTtlSeconds: parseInt(process.env.AUTH_CHALLENGE_TTL_SECONDS || '300', 10),
+    sessionTtlSeconds: parseInt(process.env.AUTH_SESSION_TTL_SECONDS || '3600', 10),
+  };
+}
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function buildChallengeMessage(address: string, nonce: string, issuedAt: Date) {
+  return [
+    'Mindshare operator sign-in',
+    '',
+    `Address: ${ethers.getAddress(address)}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+  ].join('\n');
+}
+
+// Sync operator roles from OPERATOR_ROLES, e.g. "0xAbc...=admin;0xDef...=oracle,deployer".
+// Listed operators get exactly the listed roles; operators seeded earlier but no longer listed
+// (or listed without roles) are removed. Operators added through the API are left alone.
+export async function ensureOperators() {
+  const config = process.env.OPERATOR_ROLES;
+  if (config === undefined) return;
+
+  const listed: string[] = [];
+  for (const item of config.split(';').map(s => s.trim()).filter(Boolean)) {
+    const [address, rolesPart = ''] = item.split('=');
+    if (!ethers.isAddress(address)) {
+      console.warn(`⚠️  Ignoring invalid operator address in OPERATOR_ROLES: ${address}`);
+      continue;
+    }
+    const roles = rolesPart.split(',').map(r => r.trim()).filter((r): r is Role => (ROLES as readonly string[]).includes(r));
+    if (roles.length === 0) continue;
+    listed.push(address.toLowerCase());
+    await Operator.findOneAndUpdate(
+      { address: address.toLowerCase() },
+      { $set: { roles: [...new Set(roles)], seeded: true } },
+      { upsert: true }
+    );
+  }
+
+  const removed = await Operator.deleteMany({ seeded: true, address: { $nin: listed } });
+  if (removed.deletedCount > 0) {
+    console.log(`🔑 Removed ${removed.deletedCount} operators no longer in OPERATOR_ROLES`);
+  }
+  console.log('Operator roles loaded from OPERATOR_ROLES');
+}
+
+export async function createChallenge(address: string) {
+  const { challengeTtlSeconds } = getAuthConfig();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + challengeTtlSeconds * 1000);
+
+  await AuthChallenge.create({ address: address.toLowerCase(), nonce, issuedAt, expiresAt });
+
+  return {
+    nonce,
+    expiresAt,
+    // EIP-191 personal_sign payload
+    message: buildChallengeMessage(address, nonce, issuedAt),
+    // EIP-712 signTypedData payload
+    typedData: {
+      domain: AUTH_DOMAIN,
+      types: AUTH_TYPES,
+      primaryType: 'OperatorLogin',
+      message: {
+        address: ethers.getAddress(address),
+        nonce,
+        issuedAt: Math.floor(issuedAt.getTime() / 1000),
+      },
+    },
+  };
+}
+
+// Verify a signed challenge and open a session. Returns null if the signature or nonce is invalid.
+export async function verifyChallenge(
+  address: string,
+  nonce: string,
+  signature: string,
+  signatureType: 'eip191' | 'eip712' = 'eip191'
+) {
+  const challenge = await AuthChallenge.findOne({
+    address: address.toLowerCase(),
+    nonce,
+    expiresAt: { $gt: new Date() },
+  }).lean();
+  if (!challenge) return null;
+
+  // Each challenge can only be used once
+  const { deletedCount } = await AuthChallenge.deleteOne({ _id: challenge._id });
+  if (deletedCount === 0) return null;
+
+  let recovered: string;
+  try {
+    recovered = signatureType === 'eip712'
+      ? ethers.verifyTypedData(AUTH_DOMAIN, AUTH_TYPES, {
+          address: ethers.getAddress(address),
+          nonce,
+          issuedAt: Math.floor(challenge.issuedAt.getTime() / 1000),
+        }, signature)
+      : ethers.verifyMessage(buildChallengeMessage(address, nonce, challenge.issuedAt), signature);
+  } catch {
+    return null;
+  }
+  if (recovered.toLowerCase() !== address.toLowerCase()) return null;
+
+  const operator = await Operator.findOne({ address: address.toLowerCase() }).lean();
+  const roles = operator?.roles ?? [];
+
+  const { sessionTtlSeconds } = getAuthConfig();
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + sessionTtlSeconds * 1000);
+  await AuthSession.create({ tokenHash: hashToken(token), address: address.toLowerCase(), expiresAt });
+
+  return { token, expiresAt, address: ethers.getAddress(address), roles };
+}
+
+export async function revokeSession(token: string) {
+  await AuthSession.deleteOne({ tokenHash: hashToken(token) });
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return undefined;
+  return header.slice('Bearer '.length).trim();
+}
+
+export async function getOperatorForRequest(req: Request): Promise<AuthenticatedOperator | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const session = await AuthSession.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } }).lean();
+  if (!session) return null;
+
+  // Roles are read on every request so revoking a role takes effect immediately
+  const operator = await Operator.findOne({ address: session.address }).lean();
+  return { address: session.address, roles: operator?.roles ?? [] };
+}
+
+function logDenied(req: Request, reason: string, address?: string) {
+  console.warn(`🚫 Denied ${req.method} ${req.originalUrl} (${reason}) address=${address ?? 'none'} ip=${req.ip}`);
+}
+
+// Require a valid session with at least one of the given roles (admin is allowed everywhere)
+export function requireRole(...roles: Role[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const operator = await getOperatorForRequest(req);
+      if (!operator) {
+        logDenied(req, 'no valid session');
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      if (!operator.roles.includes('admin') && !roles.some(role => operator.roles.includes(role))) {
+        logDenied(req, `missing role ${roles.join('|')}`, operator.address);
+        return res.status(403).json({ error: `Requires role: ${roles.join(' or ')}` });
+      }
+      res.locals.operator = operator;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+}
+
+// Metrics scrapers send METRICS_TOKEN as a bearer token; operators with the admin role may scrape too
+export function requireMetricsAccess(): RequestHandler {
+  const requireAdmin = requireRole('admin');
+  return (req: Request, res: Response, next: NextFunction) => {
+    const expected = process.env.METRICS_TOKEN;
+    const token = getBearerToken(req);
+    if (expected && token && crypto.timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(hashToken(expected)))) {
+      return next();
+    }
+    return requireAdmin(req, res, next);
+  };
+}
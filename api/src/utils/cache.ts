@@ -0,0 +1,161 @@
+import { isRpcUnavailable } from './rpc';
+import { cacheRequests } from './metrics';
+
+export type CacheEntity = 'market' | 'investment' | 'balance';
+
+export interface CachedValue<T> {
+  value: T;
+  syncedAt: Date;
+}
+
+// Where an entity lives: Mongo (load/save) behind the in-memory LRU, and the chain (fetch)
+export interface CacheSource<K, T> {
+  entity: CacheEntity;
+  key(k: K): string;
+  load(k: K): Promise<CachedValue<T> | null>;
+  fetch(k: K): Promise<ChainRead<T> | null>; // null when the entity doesn't exist on chain
+  save(k: K, value: T, blockNumber: number): Promise<boolean>; // false when a newer block is already stored
+}
+
+// A value read from the chain at a pinned block, so later indexed events can be applied on top of it
+export interface ChainRead<T> {
+  value: T;
+  blockNumber: number;
+}
+
+export interface CacheResult<T> extends CachedValue<T> {
+  cached: boolean; // Served from the LRU or Mongo rather than read from the chain
+  stale: boolean; // Older than the entity TTL (being revalidated, or the chain is unreachable)
+}
+
+export interface EntityCache<K, T> {
+  get(k: K, options: { enabled: boolean }): Promise<CacheResult<T> | null>;
+  refresh(k: K): Promise<T | null>;
+  set(k: K, value: T): void;
+}
+
+export function getCacheConfig() {
+  return {
+    ttlMs: {
+      market: parseInt(process.env.CACHE_TTL_MARKET_MS || '30000', 10),
+      investment: parseInt(process.env.CACHE_TTL_INVESTMENT_MS || '30000', 10),
+      balance: parseInt(process.env.CACHE_TTL_BALANCE_MS || '30000', 10),
+    } as Record<CacheEntity, number>,
+    // How long past its TTL a value is still served while it is refreshed in the background
+    staleWhileRevalidateMs: parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE_MS || '60000', 10),
+    lruSize: parseInt(process.env.CACHE_LRU_SIZE || '5000', 10),
+  };
+}
+
+// Concurrent fetches of the same key share one promise
+const inFlight = new Map<string, Promise<unknown>>();
+
+function singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const existing = inFlight.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+  const promise = fn().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the oldest entry first
+class Lru<T> {
+  private entries = new Map<string, T>();
+
+  constructor(private maxSize: number) {}
+
+  get(key: string) {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: T) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+export function createCache<K, T>(source: CacheSource<K, T>): EntityCache<K, T> {
+  const lru = new Lru<CachedValue<T>>(getCacheConfig().lruSize);
+
+  // Read from the chain and store the result, once per key at a time
+  const refresh = (k: K) => {
+    const key = source.key(k);
+    return singleFlight(`${source.entity}:${key}`, async () => {
+      const read = await source.fetch(k);
+      if (read === null) {
+        lru.delete(key);
+        return null;
+      }
+      if (await source.save(k, read.value, read.blockNumber)) {
+        lru.set(key, { value: read.value, syncedAt: new Date() });
+      } else {
+        // Mongo has a newer copy (e.g. from the indexer); load that on the next read
+        lru.delete(key);
+      }
+      return read.value;
+    });
+  };
+
+  const get = async (k: K, { enabled }: { enabled: boolean }): Promise<CacheResult<T> | null> => {
+    const key = source.key(k);
+    const { ttlMs, staleWhileRevalidateMs } = getCacheConfig();
+    const ttl = ttlMs[source.entity];
+
+    let entry: CachedValue<T> | null | undefined;
+    if (enabled) {
+      entry = lru.get(key) ?? await source.load(k);
+      if (entry) lru.set(key, entry);
+      const age = entry ? Date.now() - entry.syncedAt.getTime() : Infinity;
+      if (entry && age < ttl) {
+        cacheRequests.inc({ entity: source.entity, result: 'hit' });
+        return { ...entry, cached: true, stale: false };
+      }
+      if (entry && age < ttl + staleWhileRevalidateMs) {
+        cacheRequests.inc({ entity: source.entity, result: 'stale' });
+        refresh(k).catch(err => console.error(`Background ${source.entity} refresh error:`, err.message || err));
+        return { ...entry, cached: true, stale: true };
+      }
+    }
+    cacheRequests.inc({ entity: source.entity, result: enabled ? 'miss' : 'bypass' });
+
+    try {
+      const value = enabled
+        ? await refresh(k)
+        : await singleFlight(`${source.entity}:${key}:live`, async () => (await source.fetch(k))?.value ?? null);
+      return value === null ? null : { value, syncedAt: new Date(), cached: false, stale: false };
+    } catch (error: any) {
+      // Serve the last stored value (whatever its age) rather than failing
+      if (!isRpcUnavailable(error)) throw error;
+      entry = entry ?? await source.load(k);
+      if (!entry) throw error;
+      return { ...entry, cached: true, stale: true };
+    }
+  };
+
+  return {
+    get,
+    refresh,
+    set: (k, value) => lru.set(source.key(k), { value, syncedAt: new Date() }),
+  };
+}
+
+// Cache fields included in every response served through an entity cache
+export function formatCacheInfo(result: CacheResult<unknown>) {
+  return {
+    cached: result.cached,
+    stale: result.stale,
+    cacheAgeMs: Math.max(0, Date.now() - result.syncedAt.getTime()),
+  };
+}
@@ -0,0 +1,162 @@
+import { Request } from 'express';
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import { Market } from '../db';
+import { ResilientProvider, RpcEndpointConfig } from './rpc';
+import { addressVariants } from './constants';
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl?: string;
+  rpcUrls?: Array<string | RpcEndpointConfig>; // Failover endpoints, tried after rpcUrl by priority
+  multicallAddress?: string; // Overrides MULTICALL_ADDRESS
+  faucetPrivateKey?: string; // Overrides FAUCET_PRIVATE_KEY / PRIVATE_KEY
+  adminPrivateKey?: string; // Overrides ADMIN_PRIVATE_KEY
+}
+
+const providers = new Map<number, ResilientProvider>();
+const providerChains = new WeakMap<ethers.Provider, number>();
+
+let chains: ChainConfig[] | undefined;
+
+// CHAINS is a JSON array of chain configs. Without it, a single chain is built from RPC_URL
+// (or comma-separated RPC_URLS, in priority order) and CHAIN_ID.
+export function getChains(): ChainConfig[] {
+  if (!chains) {
+    chains = process.env.CHAINS
+      ? (JSON.parse(process.env.CHAINS) as ChainConfig[]).map(c => ({ ...c, chainId: Number(c.chainId) }))
+      : [{
+        chainId: parseInt(process.env.CHAIN_ID || '84532', 10),
+        name: process.env.CHAIN_NAME || 'Base Sepolia',
+        rpcUrl: process.env.RPC_URLS ? undefined : process.env.RPC_URL || 'https://sepolia.base.org',
+        rpcUrls: process.env.RPC_URLS?.split(',').map(url => url.trim()).filter(Boolean),
+      }];
+    if (chains.length === 0 || chains.some(c => !Number.isInteger(c.chainId) || getChainEndpoints(c).length === 0)) {
+      throw new Error('CHAINS must be a non-empty array of { chainId, name, rpcUrl | rpcUrls }');
+    }
+  }
+  return chains;
+}
+
+// rpcUrl first, then rpcUrls; explicit priorities override the order
+export function getChainEndpoints(chain: ChainConfig): RpcEndpointConfig[] {
+  const entries = [...(chain.rpcUrl ? [chain.rpcUrl] : []), ...(chain.rpcUrls ?? [])];
+  return entries.map((entry, i) => (typeof entry === 'string' ? { url: entry, priority: i } : { priority: i, ...entry }));
+}
+
+export function getChain(chainId: number) {
+  return getChains().find(c => c.chainId === chainId);
+}
+
+// DEFAULT_CHAIN_ID, or the first configured chain
+export function getDefaultChainId() {
+  return process.env.DEFAULT_CHAIN_ID ? parseInt(process.env.DEFAULT_CHAIN_ID, 10) : getChains()[0].chainId;
+}
+
+export function getProvider(chainId = getDefaultChainId()): ethers.JsonRpcProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    const chain = getChain(chainId);
+    if (!chain) throw new Error(`Chain ${chainId} is not configured`);
+    provider = new ResilientProvider(getChainEndpoints(chain), chainId);
+    providers.set(chainId, provider);
+    providerChains.set(provider, chainId);
+  }
+  return provider;
+}
+
+// Chain a provider was created for (providers built outside the registry count as the default chain)
+export function getProviderChainId(provider: ethers.Provider) {
+  return providerChains.get(provider) ?? getDefaultChainId();
+}
+
+// ?chainId= or body.chainId, falling back to the default chain. Null when it isn't a configured chain.
+export function getRequestChainId(req: Request): number | null {
+  const raw = req.query.chainId ?? req.body?.chainId;
+  if (raw === undefined || raw === '') return getDefaultChainId();
+  const chainId = Number(raw);
+  return getChain(chainId) ? chainId : null;
+}
+
+// Chain and stored spelling of a market a request is about. An explicit chainId wins, otherwise the
+// chain the market is stored on; addresses that aren't stored are checksummed. Null for an unknown
+// chainId, throws AMBIGUOUS_CHAIN when the address is stored on several chains. The address must be valid.
+export async function getMarketTarget(
+  req: Request,
+  address: string
+): Promise<{ chainId: number; marketAddress: string } | null> {
+  const explicit = req.query.chainId !== undefined || req.body?.chainId !== undefined;
+  const requested = explicit ? getRequestChainId(req) : undefined;
+  if (requested === null) return null;
+
+  const markets = await Market.find({
+    marketAddress: { $in: addressVariants(address) },
+    ...(requested !== undefined && { chainId: requested }),
+  })
+    .select('chainId marketAddress')
+    .lean();
+  const chainIds = [...new Set(markets.map(m => m.chainId))];
+  if (chainIds.length > 1) {
+    throw Object.assign(
+      new Error(`Market ${address} exists on chains ${chainIds.join(', ')}; pass chainId to pick one`),
+      { code: 'AMBIGUOUS_CHAIN' }
+    );
+  }
+  return {
+    chainId: requested ?? markets[0]?.chainId ?? getDefaultChainId(),
+    marketAddress: markets[0]?.marketAddress ?? ethers.getAddress(address),
+  };
+}
+
+export function isAmbiguousChain(error: any) {
+  return error?.code === 'AMBIGUOUS_CHAIN';
+}
+
+// Per-endpoint health of every chain's providers (created on first use)
+export function getRpcStatus() {
+  return getChains().map(chain => ({
+    chainId: chain.chainId,
+    name: chain.name,
+    endpoints: providers.get(chain.chainId)?.getEndpointStats() ?? [],
+  }));
+}
+
+export function formatChain(chain: ChainConfig) {
+  return {
+    chainId: chain.chainId,
+    name: chain.name,
+    default: chain.chainId === getDefaultChainId(),
+  };
+}
+
+// Unique indexes replaced by chain-scoped ones
+const LEGACY_INDEXES: Array<[string, string]> = [
+  ['markets', 'marketAddress_1'],
+  ['contracts', 'type_1'],
+  ['userinvestments', 'marketAddress_1_userAddress_1'],
+  ['userbalances', 'userAddress_1'],
+  ['marketevents', 'transactionHash_1_logIndex_1'],
+  ['scheduledjobs', 'marketAddress_1_action_1'],
+];
+
+// Stamp data stored before multi-chain support with the default chain and drop the old unique indexes
+export async function ensureChainIds() {
+  const chainId = getDefaultChainId();
+  const db = mongoose.connection.db;
+  for (const collection of ['markets', 'contracts', 'userinvestments', 'userbalances', 'marketevents', 'pendingtransactions', 'scheduledjobs', 'faucetclaims']) {
+    const result = await db.collection(collection).updateMany({ chainId: { $exists: false } }, { $set: { chainId } });
+    if (result.modifiedCount > 0) {
+      console.log(`⛓️  Assigned chain ${chainId} to ${result.modifiedCount} ${collection}`);
+    }
+  }
+  // The indexer checkpoint is now kept per chain
+  await db.collection('indexercheckpoints').updateOne({ key: 'markets' }, { $set: { key: `markets:${chainId}` } });
+  for (const [collection, index] of LEGACY_INDEXES) {
+    // indexExists throws when the collection doesn't exist yet
+    if (await db.collection(collection).indexExists(index).catch(() => false)) {
+      await db.collection(collection).dropIndex(index);
+      console.log(`⛓️  Dropped legacy index ${collection}.${index}`);
+    }
+  }
+}
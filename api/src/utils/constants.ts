@@ -3,6 +3,7 @@ import { ethers } from 'ethers';
 export const MARKET_ADMIN_ABI = [
   'function phase() view returns (uint8)',
   'function close() external',
+  'function resolve(uint8 winner) external',
   'function lockTime() view returns (uint64)',
   'function pools() view returns (uint128 A, uint128 B)',
   'function winner() view returns (uint8)',
@@ -10,11 +11,29 @@ export const MARKET_ADMIN_ABI = [
   'function a(address) view returns (uint128 aClaims, uint128 bClaims, bool redeemed)',
 ] as const;
 
+export const MARKET_EVENTS_ABI = [
+  'event Deposited(address indexed user, uint8 indexed side, uint256 amount)',
+  'event Redeemed(address indexed user, uint256 payout)',
+  'event Closed()',
+  'event Resolved(uint8 winner)',
+] as const;
+
 export const STAKE_TOKEN_ABI = [
   'function balanceOf(address account) external view returns (uint256)',
   'function transfer(address to, uint256 amount) external returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
 ] as const;
 
+// Market factory registered in the Contract collection as type "factory"
+export const FACTORY_ABI = [
+  'function createMarket(bytes32 questionHash, uint64 lockTime, uint64 resolveTime) external returns (address market)',
+  'event MarketCreated(bytes32 indexed marketId, address indexed market, bytes32 indexed questionHash, uint64 lockTime, uint64 resolveTime)',
+] as const;
+
+// Winning side as stored on-chain: A = "yes" / projectA, B = "no" / projectB
+export const OUTCOME_A = 1;
+export const OUTCOME_B = 2;
+
 export function phaseToStatus(phase: number): string {
   switch (phase) {
     case 0:
@@ -36,3 +55,24 @@ export function getDateOnly(date: Date): Date {
   return d;
 }
 
+// Canonical key for a project name or alias: "Gnosis Chain" -> "gnosis-chain"
+export function toProjectSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Total pool in wei as a fixed-width string (78 digits fit any uint256), so MongoDB's string
+// order is numeric order and pools can be sorted and compared in queries
+export function toPoolSortKey(totalWei: bigint): string {
+  return totalWei.toString().padStart(78, '0');
+}
+
+// All stored spellings of an address (requests may have used any casing)
+export function addressVariants(address: string) {
+  return [...new Set([address, address.toLowerCase(), ethers.getAddress(address)])];
+}
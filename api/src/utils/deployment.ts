@@ -0,0 +1,256 @@
+import { ethers } from 'ethers';
+import { Contract, Market, PendingTransaction, PendingTransactionDoc, Round, RoundDoc } from '../db';
+import { FACTORY_ABI } from './constants';
+import { createRound, refreshRounds } from './rounds';
+import { resolveProjectNames } from './projects';
+import { syncMarketPhases } from './sync';
+import { enqueueTransaction, registerTransactionHandler, waitForTransaction } from './txManager';
+import { getProviderChainId } from './chains';
+
+const factoryInterface = new ethers.Interface(FACTORY_ABI);
+
+export interface MarketSpec {
+  type: 'top10' | 'h2h';
+  projectName?: string;
+  projectA?: string;
+  projectB?: string;
+  lockTime: number; // Unix seconds
+  resolveTime: number;
+}
+
+export interface DeployResult {
+  type: string;
+  market: string;
+  status: 'deployed' | 'pending' | 'failed' | 'invalid';
+  question?: string;
+  questionHash?: string;
+  marketAddress?: string;
+  marketId?: string;
+  txId?: string;
+  txHash?: string;
+  error?: string;
+}
+
+// Stored on the deploy-market transaction so the market can be imported from its receipt
+type DeployContext = MarketSpec & {
+  question: string;
+  questionHash: string;
+  roundId: string;
+  deploymentDate: string;
+  deploymentIndex: number;
+};
+
+function getDeploymentConfig() {
+  return {
+    receiptTimeoutMs: parseInt(process.env.DEPLOY_RECEIPT_TIMEOUT_MS || '120000', 10),
+  };
+}
+
+// Canonical question text. Any change here changes every question hash, so keep it stable.
+export function buildQuestionText(spec: MarketSpec) {
+  const resolveAt = new Date(spec.resolveTime * 1000).toISOString();
+  return spec.type === 'top10'
+    ? `Will ${spec.projectName} be in the top 10 of the mindshare leaderboard at ${resolveAt}?`
+    : `Will ${spec.projectA} rank above ${spec.projectB} on the mindshare leaderboard at ${resolveAt}?`;
+}
+
+export function computeQuestionHash(question: string) {
+  return ethers.keccak256(ethers.toUtf8Bytes(question));
+}
+
+function describeSpec(spec: Partial<MarketSpec>) {
+  return spec.type === 'h2h' ? `${spec.projectA} vs ${spec.projectB}` : `${spec.projectName} top 10`;
+}
+
+// Problems with a spec; project names must already be canonical
+function validateSpec(spec: MarketSpec, blockTime: number): string | null {
+  if (spec.type !== 'top10' && spec.type !== 'h2h') return 'type must be top10 or h2h';
+  if (spec.type === 'top10' && !spec.projectName) return 'projectName required';
+  if (spec.type === 'h2h' && (!spec.projectA || !spec.projectB)) return 'projectA and projectB required';
+  if (spec.type === 'h2h' && spec.projectA === spec.projectB) return 'projectA and projectB must differ';
+  if (!Number.isInteger(spec.lockTime) || !Number.isInteger(spec.resolveTime)) return 'lockTime and resolveTime must be Unix seconds';
+  if (spec.lockTime <= blockTime) return `lockTime must be after the latest block time (${blockTime})`;
+  if (spec.resolveTime <= spec.lockTime) return 'resolveTime must be after lockTime';
+  return null;
+}
+
+// Create or update the Market doc from the factory's MarketCreated event
+async function importDeployedMarket(tx: PendingTransactionDoc, receipt: ethers.TransactionReceipt) {
+  const context = tx.context as unknown as DeployContext;
+
+  const created = receipt.logs
+    .filter(log => log.address.toLowerCase() === tx.to.toLowerCase())
+    .map(log => factoryInterface.parseLog(log))
+    .find(event => event?.name === 'MarketCreated' && event.args.questionHash === context.questionHash);
+  if (!created) {
+    throw new Error('MarketCreated event not found in receipt');
+  }
+
+  return Market.findOneAndUpdate(
+    { marketAddress: created.args.market, chainId: tx.chainId },
+    {
+      type: context.type,
+      projectName: context.projectName,
+      projectA: context.projectA,
+      projectB: context.projectB,
+      lockTime: context.lockTime,
+      resolveTime: context.resolveTime,
+      question: context.question,
+      questionHash: context.questionHash,
+      marketId: created.args.marketId,
+      marketAddress: created.args.market,
+      chainId: tx.chainId,
+      phase: 0,
+      status: 'trading',
+      lastTxHash: receipt.hash,
+      roundId: context.roundId,
+      deploymentDate: new Date(context.deploymentDate),
+      deploymentIndex: context.deploymentIndex,
+    },
+    { upsert: true, new: true }
+  );
+}
+
+// Import the market even when the deploy request stopped waiting for the receipt
+registerTransactionHandler('deploy-market', async (tx, receipt) => {
+  if (tx.status !== 'mined' || !receipt) return;
+  const market = await importDeployedMarket(tx, receipt);
+  await refreshRounds([market.roundId!]);
+  console.log(`✅ Imported deployed market ${market.marketAddress} (${describeSpec(market)})`);
+});
+
+// Deploy markets through the factory registered for the provider's chain, wait for the receipts and
+// import the new markets into a new round. Each market succeeds or fails on its own.
+export async function deployMarkets(provider: ethers.JsonRpcProvider, specs: MarketSpec[]) {
+  const chainId = getProviderChainId(provider);
+  const factory = await Contract.findOne({ type: 'factory', chainId }).lean();
+  if (!factory) {
+    throw new Error(`No factory contract registered for chain ${chainId} (POST /api/contracts with type "factory")`);
+  }
+
+  const names = specs.flatMap(s => (s.type === 'h2h' ? [s.projectA, s.projectB] : [s.projectName]))
+    .map(name => String(name ?? ''));
+  const { resolved } = await resolveProjectNames(names);
+  const canonical = (name?: string) => (name ? resolved.get(name)?.name : undefined);
+
+  const latestBlock = await provider.getBlock('latest');
+  const blockTime = latestBlock?.timestamp ?? Math.floor(Date.now() / 1000);
+  // Created with the first valid market so a request with only invalid specs leaves no empty round
+  let round: RoundDoc | null = null;
+
+  const results: DeployResult[] = [];
+  const queued: Array<{ result: DeployResult; txId: string }> = [];
+  const questionHashes = new Set<string>();
+
+  for (const input of specs) {
+    const spec: MarketSpec = {
+      type: input.type,
+      projectName: input.type === 'top10' ? canonical(input.projectName) : undefined,
+      projectA: input.type === 'h2h' ? canonical(input.projectA) : undefined,
+      projectB: input.type === 'h2h' ? canonical(input.projectB) : undefined,
+      lockTime: Number(input.lockTime),
+      resolveTime: Number(input.resolveTime),
+    };
+    const result: DeployResult = { type: String(input.type), market: describeSpec(input), status: 'invalid' };
+    results.push(result);
+
+    const unknown = [input.projectName, input.projectA, input.projectB]
+      .filter(name => name && !resolved.has(String(name)));
+    const error = unknown.length > 0 ? `Unknown projects: ${unknown.join(', ')}` : validateSpec(spec, blockTime);
+    if (error) {
+      result.error = error;
+      continue;
+    }
+
+    result.market = describeSpec(spec);
+    result.question = buildQuestionText(spec);
+    result.questionHash = computeQuestionHash(result.question);
+    if (questionHashes.has(result.questionHash) || await Market.exists({ questionHash: result.questionHash, chainId })) {
+      result.error = 'A market for this question already exists';
+      continue;
+    }
+    // An earlier request may still be deploying it
+    const inFlight = await PendingTransaction.exists({
+      kind: 'deploy-market',
+      chainId,
+      'context.questionHash': result.questionHash,
+      status: { $in: ['queued', 'sent'] },
+    });
+    if (inFlight) {
+      result.error = 'A market for this question is already being deployed';
+      continue;
+    }
+    questionHashes.add(result.questionHash);
+
+    try {
+      round = round ?? await createRound(chainId);
+      const tx = await enqueueTransaction(provider, {
+        signer: 'admin',
+        kind: 'deploy-market',
+        to: factory.address,
+        data: factoryInterface.encodeFunctionData('createMarket', [result.questionHash, spec.lockTime, spec.resolveTime]),
+        context: {
+          ...spec,
+          question: result.question,
+          questionHash: result.questionHash,
+          roundId: round.roundId,
+          deploymentDate: round.deploymentDate.toISOString(),
+          deploymentIndex: round.deploymentIndex,
+        },
+      });
+      result.status = 'pending';
+      result.txId = tx.id;
+      queued.push({ result, txId: tx.id });
+    } catch (error: any) {
+      result.status = 'failed';
+      result.error = error.message;
+    }
+  }
+
+  console.log(`🏭 Deploying ${queued.length}/${specs.length} markets via factory ${factory.address} on chain ${chainId} (round ${round?.roundId ?? 'none'})`);
+
+  const { receiptTimeoutMs } = getDeploymentConfig();
+  await Promise.all(queued.map(async ({ result, txId }) => {
+    try {
+      const tx = await waitForTransaction(txId, receiptTimeoutMs);
+      result.txHash = tx?.hash;
+      if (!tx || tx.status === 'failed') {
+        result.status = 'failed';
+        result.error = tx?.error || 'Transaction not found';
+        return;
+      }
+      if (tx.status !== 'mined') return; // Still pending; the transaction handler imports it later
+
+      const receipt = await provider.getTransactionReceipt(tx.hash!);
+      if (!receipt) return;
+      const market = await importDeployedMarket(tx, receipt);
+      result.status = 'deployed';
+      result.marketAddress = market.marketAddress;
+      result.marketId = market.marketId;
+    } catch (error: any) {
+      result.status = 'failed';
+      result.error = error.message;
+    }
+  }));
+
+  if (round && results.some(r => r.status === 'deployed')) {
+    await syncMarketPhases(provider);
+    await refreshRounds([round.roundId]);
+  } else if (round && !results.some(r => r.status === 'pending')) {
+    // Every deployment failed - drop the round rather than leave it empty
+    await Round.deleteOne({ roundId: round.roundId });
+    round = null;
+  }
+
+  return {
+    chainId,
+    factory: factory.address,
+    roundId: round?.roundId ?? null,
+    deploymentDate: round?.deploymentDate.toISOString().split('T')[0] ?? null,
+    deploymentIndex: round?.deploymentIndex ?? null,
+    deployed: results.filter(r => r.status === 'deployed').length,
+    pending: results.filter(r => r.status === 'pending').length,
+    failed: results.filter(r => r.status === 'failed' || r.status === 'invalid').length,
+    results,
+  };
+}
@@ -0,0 +1,223 @@
+import { ethers } from 'ethers';
+import { FaucetClaim, FaucetReservation } from '../db';
+import { getDateOnly } from './constants';
+import { syncUserBalanceToCache } from './sync';
+import { registerTransactionHandler } from './txManager';
+import { getProviderChainId } from './chains';
+import { faucetRequests, faucetSentTokens } from './metrics';
+
+// Failed claims don't count towards cooldowns or the budget
+const COUNTED_STATUSES = ['pending', 'sent'];
+
+// Settle the claim once the transfer is mined (or failed)
+registerTransactionHandler('faucet', async (tx, receipt, provider) => {
+  const { claimId, address, amountWei, enableCache } = tx.context as {
+    claimId: string;
+    address: string;
+    amountWei: string;
+    enableCache?: boolean;
+  };
+  const claim = await FaucetClaim.findByIdAndUpdate(claimId, {
+    status: tx.status === 'mined' ? 'sent' : 'failed',
+    txHash: tx.hash,
+    error: tx.status === 'mined' ? undefined : tx.error,
+  });
+  if (claim && tx.status !== 'mined') {
+    await releaseFaucetClaim(claim.chainId, claimId, claim.amount, claim.createdAt);
+  }
+  const chainId = getProviderChainId(provider);
+  faucetRequests.inc({ chain_id: chainId, result: tx.status === 'mined' ? 'sent' : 'failed' });
+  if (tx.status === 'mined') {
+    console.log(`  ✅ Faucet tokens sent to ${address}`);
+    faucetSentTokens.inc({ chain_id: chainId }, Number(ethers.formatEther(amountWei)));
+    if (enableCache) {
+      await syncUserBalanceToCache(address, provider);
+    }
+  }
+});
+
+export function getFaucetConfig() {
+  return {
+    maxAmount: parseFloat(process.env.FAUCET_MAX_AMOUNT || '1000'),
+    addressCooldownSeconds: parseInt(process.env.FAUCET_ADDRESS_COOLDOWN_SECONDS || '86400', 10),
+    ipCooldownSeconds: parseInt(process.env.FAUCET_IP_COOLDOWN_SECONDS || '3600', 10),
+    dailyBudget: parseFloat(process.env.FAUCET_DAILY_BUDGET || '100000'),
+    requireSignature: process.env.FAUCET_REQUIRE_SIGNATURE === 'true',
+    signatureMaxAgeSeconds: parseInt(process.env.FAUCET_SIGNATURE_MAX_AGE_SECONDS || '300', 10),
+  };
+}
+
+// The chain is part of the message, so a signature can't be replayed on another chain
+export function buildFaucetClaimMessage(address: string, amount: string | number, timestamp: number, chainId: number) {
+  return [
+    'Mindshare faucet claim',
+    '',
+    `Chain ID: ${chainId}`,
+    `Address: ${ethers.getAddress(address)}`,
+    `Amount: ${amount}`,
+    `Timestamp: ${timestamp}`,
+  ].join('\n');
+}
+
+// Check that `signature` is the address owner's signature over a recent claim message
+export function verifyFaucetSignature(
+  address: string,
+  amount: string | number,
+  timestamp: number,
+  signature: string,
+  chainId: number
+): string | null {
+  const { signatureMaxAgeSeconds } = getFaucetConfig();
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > signatureMaxAgeSeconds) {
+    return 'Signature timestamp expired';
+  }
+
+  try {
+    const recovered = ethers.verifyMessage(buildFaucetClaimMessage(address, amount, timestamp, chainId), signature);
+    if (recovered.toLowerCase() !== address.toLowerCase()) {
+      return 'Signature does not match address';
+    }
+  } catch {
+    return 'Invalid signature';
+  }
+  return null;
+}
+
+async function getLastClaim(filter: Record<string, unknown>) {
+  return FaucetClaim.findOne({ ...filter, status: { $in: COUNTED_STATUSES } })
+    .sort({ createdAt: -1 })
+    .lean();
+}
+
+// Cooldowns and the daily budget apply per chain
+export async function getDailyClaimedAmount(chainId: number): Promise<number> {
+  const [result] = await FaucetClaim.aggregate([
+    { $match: { chainId, createdAt: { $gte: getDateOnly(new Date()) }, status: { $in: COUNTED_STATUSES } } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+  return result?.total ?? 0;
+}
+
+// Work out whether a claim is allowed right now. retryAfter is in seconds.
+export async function checkFaucetEligibility(address: string, ip: string, amount: number, chainId: number) {
+  const { addressCooldownSeconds, ipCooldownSeconds, dailyBudget } = getFaucetConfig();
+  const now = Date.now();
+
+  const lastAddressClaim = await getLastClaim({ chainId, address: address.toLowerCase() });
+  if (lastAddressClaim) {
+    const nextAt = lastAddressClaim.createdAt.getTime() + addressCooldownSeconds * 1000;
+    if (nextAt > now) {
+      return { allowed: false, reason: 'Address is in cooldown', retryAfter: Math.ceil((nextAt - now) / 1000) };
+    }
+  }
+
+  const lastIpClaim = await getLastClaim({ chainId, ip });
+  if (lastIpClaim) {
+    const nextAt = lastIpClaim.createdAt.getTime() + ipCooldownSeconds * 1000;
+    if (nextAt > now) {
+      return { allowed: false, reason: 'IP is in cooldown', retryAfter: Math.ceil((nextAt - now) / 1000) };
+    }
+  }
+
+  const claimedToday = await getDailyClaimedAmount(chainId);
+  if (claimedToday + amount > dailyBudget) {
+    const tomorrow = getDateOnly(new Date(now + 24 * 60 * 60 * 1000)).getTime();
+    return { allowed: false, reason: 'Daily faucet budget exhausted', retryAfter: Math.ceil((tomorrow - now) / 1000) };
+  }
+
+  return { allowed: true as const };
+}
+
+function budgetKey(date: Date) {
+  return `budget:${getDateOnly(date).toISOString().slice(0, 10)}`;
+}
+
+// Take the cooldown for `key` unless another claim holds it. Returns the seconds left otherwise.
+async function reserveCooldown(chainId: number, key: string, claimId: string, seconds: number): Promise<number | null> {
+  const now = new Date();
+  try {
+    await FaucetReservation.findOneAndUpdate(
+      { chainId, key, until: { $lte: now } },
+      { $set: { claimId, until: new Date(now.getTime() + seconds * 1000) } },
+      { upsert: true }
+    );
+    return null;
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    const held = await FaucetReservation.findOne({ chainId, key }).lean();
+    return Math.max(1, Math.ceil(((held?.until.getTime() ?? now.getTime()) - now.getTime()) / 1000));
+  }
+}
+
+// Atomically reserve the address and IP cooldowns and the claim's share of today's budget, so
+// concurrent requests can't all pass checkFaucetEligibility before any claim is stored
+export async function reserveFaucetClaim(address: string, ip: string, amount: number, chainId: number, claimId: string) {
+  const { addressCooldownSeconds, ipCooldownSeconds, dailyBudget } = getFaucetConfig();
+  const addressKey = `address:${address.toLowerCase()}`;
+  const ipKey = `ip:${ip}`;
+
+  const addressWait = await reserveCooldown(chainId, addressKey, claimId, addressCooldownSeconds);
+  if (addressWait !== null) {
+    return { allowed: false as const, reason: 'Address is in cooldown', retryAfter: addressWait };
+  }
+  const ipWait = await reserveCooldown(chainId, ipKey, claimId, ipCooldownSeconds);
+  if (ipWait !== null) {
+    await FaucetReservation.deleteOne({ chainId, key: addressKey, claimId });
+    return { allowed: false as const, reason: 'IP is in cooldown', retryAfter: ipWait };
+  }
+
+  const now = Date.now();
+  const tomorrow = getDateOnly(new Date(now + 24 * 60 * 60 * 1000));
+  try {
+    await FaucetReservation.findOneAndUpdate(
+      { chainId, key: budgetKey(new Date(now)), amount: { $lte: dailyBudget - amount } },
+      { $inc: { amount }, $set: { until: tomorrow } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    await FaucetReservation.deleteMany({ chainId, key: { $in: [addressKey, ipKey] }, claimId });
+    if (error?.code !== 11000) throw error;
+    return { allowed: false as const, reason: 'Daily faucet budget exhausted', retryAfter: Math.ceil((tomorrow.getTime() - now) / 1000) };
+  }
+
+  return { allowed: true as const };
+}
+
+// Give back the reservations of a claim that failed (reservedAt picks the day's budget)
+export async function releaseFaucetClaim(chainId: number, claimId: string, amount: number, reservedAt: Date) {
+  await Promise.all([
+    FaucetReservation.deleteMany({ chainId, claimId }),
+    FaucetReservation.updateOne({ chainId, key: budgetKey(reservedAt) }, { $inc: { amount: -amount } }),
+  ]);
+}
+
+export async function getFaucetStatus(address: string, chainId: number) {
+  const { addressCooldownSeconds, maxAmount, dailyBudget, requireSignature } = getFaucetConfig();
+  const [lastClaim, claims, claimedToday] = await Promise.all([
+    getLastClaim({ chainId, address: address.toLowerCase() }),
+    FaucetClaim.find({ chainId, address: address.toLowerCase() }).sort({ createdAt: -1 }).limit(50).lean(),
+    getDailyClaimedAmount(chainId),
+  ]);
+
+  const nextClaimAt = lastClaim
+    ? new Date(lastClaim.createdAt.getTime() + addressCooldownSeconds * 1000)
+    : new Date();
+
+  return {
+    address,
+    chainId,
+    canClaim: nextClaimAt.getTime() <= Date.now() && claimedToday < dailyBudget,
+    nextClaimAt: nextClaimAt.getTime() > Date.now() ? nextClaimAt : new Date(),
+    maxAmount,
+    requireSignature,
+    dailyBudgetRemaining: Math.max(0, dailyBudget - claimedToday),
+    claims: claims.map(c => ({
+      amount: c.amount,
+      status: c.status,
+      txId: c.txId,
+      txHash: c.txHash,
+      createdAt: c.createdAt,
+    })),
+  };
+}
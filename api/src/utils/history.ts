@@ -0,0 +1,149 @@
+import { Market, MarketPoolSnapshot } from '../db';
+import { impliedOddsFromStrings } from './odds';
+
+export const HISTORY_BUCKETS = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+} as const;
+
+export type HistoryBucket = keyof typeof HISTORY_BUCKETS;
+
+const HOUR_MS = HISTORY_BUCKETS['1h'];
+
+function getHistoryConfig() {
+  return {
+    rawRetentionDays: parseFloat(process.env.HISTORY_RAW_RETENTION_DAYS || '7'),
+    retentionIntervalMs: parseInt(process.env.HISTORY_RETENTION_INTERVAL_MS || '3600000', 10),
+    maxPoints: parseInt(process.env.HISTORY_MAX_POINTS || '2000', 10),
+  };
+}
+
+export interface PoolSnapshotInput {
+  chainId: number;
+  marketAddress: string;
+  poolA: string;
+  poolB: string;
+  phase: number;
+}
+
+export async function recordPoolSnapshots(snapshots: PoolSnapshotInput[]) {
+  if (snapshots.length === 0) return;
+  const timestamp = new Date();
+  try {
+    await MarketPoolSnapshot.insertMany(snapshots.map(s => ({ ...s, timestamp, resolution: 'raw' })));
+  } catch (error: any) {
+    console.error('Error recording pool snapshots:', error.message);
+  }
+}
+
+// Pools per bucket between `from` and `to`. Each bucket holds the last known value
+// at the end of the bucket, carried forward through buckets without changes.
+export async function getMarketHistory(chainId: number, marketAddress: string, from: Date, to: Date, bucket: HistoryBucket) {
+  const bucketMs = HISTORY_BUCKETS[bucket];
+  const { maxPoints } = getHistoryConfig();
+  const firstBucket = Math.floor(from.getTime() / bucketMs) * bucketMs;
+  if ((to.getTime() - firstBucket) / bucketMs > maxPoints) {
+    throw new Error(`Range too large for ${bucket} buckets (max ${maxPoints} points)`);
+  }
+
+  const address = marketAddress.toLowerCase();
+  const [before, snapshots] = await Promise.all([
+    MarketPoolSnapshot.findOne({ chainId, marketAddress: address, timestamp: { $lt: new Date(firstBucket) } })
+      .sort({ timestamp: -1 })
+      .lean(),
+    MarketPoolSnapshot.find({ chainId, marketAddress: address, timestamp: { $gte: new Date(firstBucket), $lte: to } })
+      .sort({ timestamp: 1 })
+      .lean(),
+  ]);
+
+  const points = [];
+  let current = before;
+  let i = 0;
+  for (let start = firstBucket; start <= to.getTime(); start += bucketMs) {
+    let updates = 0;
+    while (i < snapshots.length && snapshots[i].timestamp.getTime() < start + bucketMs) {
+      current = snapshots[i++];
+      updates++;
+    }
+    if (!current) continue; // No data yet
+
+    points.push({
+      timestamp: new Date(start),
+      poolA: current.poolA,
+      poolB: current.poolB,
+      total: (BigInt(current.poolA) + BigInt(current.poolB)).toString(),
+      phase: current.phase,
+      impliedOdds: impliedOddsFromStrings(current.poolA, current.poolB),
+      updates,
+    });
+  }
+  return points;
+}
+
+// Collapse raw snapshots older than HISTORY_RAW_RETENTION_DAYS into one per market per hour
+export async function downsampleHistory() {
+  const { rawRetentionDays } = getHistoryConfig();
+  const cutoff = new Date(Math.floor((Date.now() - rawRetentionDays * 24 * HOUR_MS) / HOUR_MS) * HOUR_MS);
+
+  const hourly = await MarketPoolSnapshot.aggregate([
+    { $match: { resolution: 'raw', timestamp: { $lt: cutoff } } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: {
+          chainId: '$chainId',
+          marketAddress: '$marketAddress',
+          hour: { $subtract: ['$timestamp', { $mod: [{ $toLong: '$timestamp' }, HOUR_MS] }] },
+        },
+        poolA: { $last: '$poolA' },
+        poolB: { $last: '$poolB' },
+        phase: { $last: '$phase' },
+      },
+    },
+  ]);
+  if (hourly.length === 0) return { downsampled: 0, removed: 0 };
+
+  await MarketPoolSnapshot.bulkWrite(hourly.map(h => ({
+    updateOne: {
+      filter: { chainId: h._id.chainId, marketAddress: h._id.marketAddress, resolution: '1h', timestamp: h._id.hour },
+      update: { $set: { poolA: h.poolA, poolB: h.poolB, phase: h.phase } },
+      upsert: true,
+    },
+  })));
+  const removed = await MarketPoolSnapshot.deleteMany({ resolution: 'raw', timestamp: { $lt: cutoff } });
+
+  console.log(`🗜️  Downsampled ${removed.deletedCount} pool snapshots into ${hourly.length} hourly points`);
+  return { downsampled: hourly.length, removed: removed.deletedCount };
+}
+
+// Pool snapshots recorded before they carried a chain get their market's chain. Addresses stored on
+// several chains can't be told apart and are left out of every chain's history.
+export async function ensurePoolSnapshotChainIds() {
+  if (!(await MarketPoolSnapshot.exists({ chainId: { $exists: false } }))) return;
+  const markets = await Market.find().select('chainId marketAddress').lean();
+  const chainsByAddress = new Map<string, Set<number>>();
+  for (const m of markets) {
+    const address = m.marketAddress.toLowerCase();
+    chainsByAddress.set(address, (chainsByAddress.get(address) ?? new Set()).add(m.chainId));
+  }
+
+  let assigned = 0;
+  for (const [marketAddress, chainIds] of chainsByAddress) {
+    if (chainIds.size !== 1) continue;
+    const result = await MarketPoolSnapshot.updateMany(
+      { marketAddress, chainId: { $exists: false } },
+      { $set: { chainId: [...chainIds][0] } }
+    );
+    assigned += result.modifiedCount;
+  }
+  if (assigned > 0) {
+    console.log(`⛓️  Assigned chains to ${assigned} pool snapshots`);
+  }
+}
+
+export function startHistoryRetention() {
+  const { retentionIntervalMs } = getHistoryConfig();
+  const tick = () => downsampleHistory().catch(error => console.error('❌ History retention error:', error.message || error));
+  tick();
+  setInterval(tick, retentionIntervalMs);
+}
@@ -0,0 +1,378 @@
+import { ethers } from 'ethers';
+import { Market, MarketEvent, MarketEventAttrs, IndexerCheckpoint, Contract, UserBalance, UserInvestment } from '../db';
+import { MARKET_EVENTS_ABI, STAKE_TOKEN_ABI, OUTCOME_A } from './constants';
+import {
+  InvestmentChainState,
+  MarketChainState,
+  cacheMarketState,
+  cacheUserBalance,
+  cacheUserInvestment,
+  syncMarketPhases,
+  syncMarketToCache,
+  syncUserInvestmentToCache,
+  syncUserBalanceToCache,
+} from './sync';
+import { getProviderChainId } from './chains';
+
+// One checkpoint per chain
+function checkpointKey(chainId: number) {
+  return `markets:${chainId}`;
+}
+
+const marketInterface = new ethers.Interface(MARKET_EVENTS_ABI);
+const stakeTokenInterface = new ethers.Interface(STAKE_TOKEN_ABI);
+
+const EVENT_TOPICS = [
+  marketInterface.getEvent('Deposited')!.topicHash,
+  marketInterface.getEvent('Redeemed')!.topicHash,
+  marketInterface.getEvent('Closed')!.topicHash,
+  marketInterface.getEvent('Resolved')!.topicHash,
+  stakeTokenInterface.getEvent('Transfer')!.topicHash,
+];
+
+function getIndexerConfig() {
+  return {
+    // Number of most recent blocks re-scanned on every pass to pick up reorgs
+    confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10),
+    batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '2000', 10),
+    intervalMs: parseInt(process.env.INDEXER_INTERVAL_MS || '5000', 10),
+    startBlock: process.env.INDEXER_START_BLOCK ? parseInt(process.env.INDEXER_START_BLOCK, 10) : undefined,
+  };
+}
+
+function logKey(log: { transactionHash: string; logIndex: number }) {
+  return `${log.transactionHash}:${log.logIndex}`;
+}
+
+function serializeArgs(parsed: ethers.LogDescription): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value = parsed.args[i];
+    args[input.name] = typeof value === 'bigint' ? value.toString() : value;
+  });
+  return args;
+}
+
+// Index all market and stake token logs in [fromBlock, toBlock], replacing whatever was
+// stored for that range, and update every cached entity the changed logs touch
+async function indexRange(provider: ethers.JsonRpcProvider, fromBlock: number, toBlock: number, checkpointBlock: number) {
+  const chainId = getProviderChainId(provider);
+  const markets = await Market.find({ chainId }).select('marketAddress').lean();
+  const stakeTokenContract = await Contract.findOne({ type: 'stakeToken', chainId }).lean();
+
+  const marketsByAddress = new Map(markets.map(m => [m.marketAddress.toLowerCase(), m.marketAddress]));
+  const stakeTokenAddress = stakeTokenContract?.address.toLowerCase();
+  const addresses = [...marketsByAddress.values()];
+  if (stakeTokenContract) addresses.push(stakeTokenContract.address);
+  if (addresses.length === 0) return;
+
+  const logs = await provider.getLogs({
+    address: addresses,
+    topics: [EVENT_TOPICS],
+    fromBlock,
+    toBlock,
+  });
+
+  const events: MarketEventAttrs[] = [];
+  for (const log of logs) {
+    const isStakeToken = log.address.toLowerCase() === stakeTokenAddress;
+    const parsed = isStakeToken ? stakeTokenInterface.parseLog(log) : marketInterface.parseLog(log);
+    if (!parsed) continue;
+    events.push({
+      chainId,
+      address: log.address,
+      event: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      userAddress: parsed.args.user as string | undefined,
+      args: serializeArgs(parsed),
+    });
+  }
+
+  // Anything stored for this range that the chain no longer returns was reorged out
+  const stored = await MarketEvent.find({ chainId, blockNumber: { $gte: fromBlock, $lte: toBlock } }).lean();
+  const storedByKey = new Map(stored.map(e => [logKey(e), e]));
+  const fetchedKeys = new Set(events.map(logKey));
+
+  const removed = stored.filter(e => !fetchedKeys.has(logKey(e)));
+  const added = events.filter(e => storedByKey.get(logKey(e))?.blockHash !== e.blockHash);
+
+  if (removed.length === 0 && added.length === 0) return;
+
+  if (removed.length > 0) {
+    console.warn(`⚠️  Reorg: dropping ${removed.length} events between blocks ${fromBlock} and ${toBlock}`);
+    await MarketEvent.deleteMany({ _id: { $in: removed.map(e => e._id) } });
+  }
+  if (added.length > 0) {
+    await MarketEvent.bulkWrite(
+      added.map(e => ({
+        updateOne: {
+          filter: { transactionHash: e.transactionHash, logIndex: e.logIndex, chainId },
+          update: { $set: e },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  // A reorg (events dropped, or showing up in blocks indexed before) invalidates the stored states,
+  // so everything it touches is re-read from the chain. Otherwise states are derived from the events.
+  const reorged = removed.length > 0 || added.some(e => e.blockNumber <= checkpointBlock);
+  const summary = reorged
+    ? await refreshTouched(provider, [...removed, ...added], marketsByAddress)
+    : await applyEvents(provider, added, marketsByAddress, toBlock);
+
+  console.log(`📥 Indexed chain ${chainId} blocks ${fromBlock}-${toBlock}: +${added.length}/-${removed.length} events, ${summary.markets} markets, ${summary.investments} investments, ${summary.balances} balances ${reorged ? 're-read after reorg' : 'updated'}`);
+}
+
+function applyMarketEvent(state: MarketChainState, e: MarketEventAttrs) {
+  switch (e.event) {
+    case 'Deposited':
+      if (Number(e.args.side) === OUTCOME_A) state.poolA += BigInt(e.args.amount as string);
+      else state.poolB += BigInt(e.args.amount as string);
+      break;
+    case 'Closed':
+      state.phase = 1; // locked
+      break;
+    case 'Resolved':
+      state.phase = 2; // resolved
+      state.winner = Number(e.args.winner);
+      break;
+  }
+}
+
+function applyInvestmentEvent(state: InvestmentChainState, e: MarketEventAttrs) {
+  if (e.event === 'Deposited') {
+    if (Number(e.args.side) === OUTCOME_A) state.aClaims += BigInt(e.args.amount as string);
+    else state.bClaims += BigInt(e.args.amount as string);
+  } else if (e.event === 'Redeemed') {
+    state.redeemed = true;
+  }
+}
+
+// Derive market, investment and balance states from newly indexed events. Each stored state only
+// takes the events after the block it reflects (syncedBlock); entities with no stored state yet are
+// read from the chain once instead.
+async function applyEvents(
+  provider: ethers.JsonRpcProvider,
+  events: MarketEventAttrs[],
+  marketsByAddress: Map<string, string>,
+  toBlock: number
+) {
+  const chainId = getProviderChainId(provider);
+  const sorted = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const isAfter = (e: MarketEventAttrs, syncedBlock: number) => e.blockNumber > syncedBlock;
+
+  const marketEvents = new Map<string, MarketEventAttrs[]>();
+  const investmentEvents = new Map<string, { marketAddress: string; userAddress: string; events: MarketEventAttrs[] }>();
+  const transfers = new Map<string, { userAddress: string; events: Array<{ e: MarketEventAttrs; delta: bigint }> }>();
+  const eventUsers = new Map<string, string>();
+
+  for (const e of sorted) {
+    if (e.event === 'Transfer') {
+      const value = BigInt(e.args.value as string);
+      for (const [party, delta] of [[e.args.from, -value], [e.args.to, value]] as [string, bigint][]) {
+        if (party === ethers.ZeroAddress) continue;
+        const entry = transfers.get(party.toLowerCase()) ?? { userAddress: party, events: [] };
+        entry.events.push({ e, delta });
+        transfers.set(party.toLowerCase(), entry);
+      }
+      continue;
+    }
+    const marketAddress = marketsByAddress.get(e.address.toLowerCase());
+    if (!marketAddress) continue;
+    marketEvents.set(marketAddress, [...(marketEvents.get(marketAddress) ?? []), e]);
+    if (e.userAddress) {
+      const key = `${marketAddress}:${e.userAddress.toLowerCase()}`;
+      const entry = investmentEvents.get(key) ?? { marketAddress, userAddress: e.userAddress, events: [] };
+      entry.events.push(e);
+      investmentEvents.set(key, entry);
+      eventUsers.set(e.userAddress.toLowerCase(), e.userAddress);
+    }
+  }
+
+  const markets = await Market.find({ chainId, marketAddress: { $in: [...marketEvents.keys()] } }).lean();
+  const storedMarkets = new Map(markets.map(m => [m.marketAddress, m]));
+  for (const [marketAddress, list] of marketEvents) {
+    const market = storedMarkets.get(marketAddress);
+    if (!market?.lastSyncedAt || market.syncedBlock == null) {
+      await syncMarketToCache(marketAddress, provider);
+      continue;
+    }
+    const pending = list.filter(e => isAfter(e, market.syncedBlock!));
+    if (pending.length === 0) continue;
+    const state: MarketChainState = {
+      phase: market.phase ?? 0,
+      poolA: BigInt(market.poolA || '0'),
+      poolB: BigInt(market.poolB || '0'),
+      winner: market.winner ?? 0,
+      lockTime: market.lockTime,
+      resolveTime: market.resolveTime,
+    };
+    pending.forEach(e => applyMarketEvent(state, e));
+    await cacheMarketState(marketAddress, state, chainId, toBlock);
+  }
+
+  for (const { marketAddress, userAddress, events: list } of investmentEvents.values()) {
+    const investment = await UserInvestment.findOne({ marketAddress, userAddress, chainId }).lean();
+    if (!investment || investment.syncedBlock == null) {
+      await syncUserInvestmentToCache(marketAddress, userAddress, provider);
+      continue;
+    }
+    const pending = list.filter(e => isAfter(e, investment.syncedBlock!));
+    if (pending.length === 0) continue;
+    const state: InvestmentChainState = {
+      aClaims: BigInt(investment.aClaims),
+      bClaims: BigInt(investment.bClaims),
+      redeemed: investment.redeemed,
+    };
+    pending.forEach(e => applyInvestmentEvent(state, e));
+    await cacheUserInvestment(marketAddress, userAddress, chainId, state, toBlock);
+  }
+
+  // Balances move with stake token transfers. Only balances someone already asked for are tracked,
+  // plus the users of market events (first read from the chain).
+  const parties = new Set([...transfers.keys(), ...eventUsers.keys()]);
+  const balances = await UserBalance.find({
+    chainId,
+    userAddress: { $in: [...parties].flatMap(a => [a, ethers.getAddress(a)]) },
+  }).lean();
+  const storedBalances = new Map(balances.map(b => [b.userAddress.toLowerCase(), b]));
+  let balanceCount = 0;
+  for (const party of parties) {
+    const balance = storedBalances.get(party);
+    if (!balance || balance.syncedBlock == null) {
+      if (!balance && !eventUsers.has(party)) continue;
+      await syncUserBalanceToCache(balance?.userAddress ?? eventUsers.get(party) ?? party, provider);
+      balanceCount++;
+      continue;
+    }
+    const pending = (transfers.get(party)?.events ?? []).filter(t => isAfter(t.e, balance.syncedBlock!));
+    if (pending.length === 0) continue;
+    const updated = pending.reduce((sum, t) => sum + t.delta, BigInt(balance.balance));
+    await cacheUserBalance(balance.userAddress, chainId, updated, toBlock);
+    balanceCount++;
+  }
+
+  return { markets: marketEvents.size, investments: investmentEvents.size, balances: balanceCount };
+}
+
+// Re-read every market, investment and tracked balance the given events touch
+async function refreshTouched(
+  provider: ethers.JsonRpcProvider,
+  events: MarketEventAttrs[],
+  marketsByAddress: Map<string, string>
+) {
+  const chainId = getProviderChainId(provider);
+  const dirtyMarkets = new Set<string>();
+  const dirtyInvestments = new Map<string, { marketAddress: string; userAddress: string }>();
+  const dirtyBalances = new Set<string>();
+  const transferParties = new Set<string>();
+
+  for (const e of events) {
+    if (e.event === 'Transfer') {
+      transferParties.add(e.args.from as string);
+      transferParties.add(e.args.to as string);
+      continue;
+    }
+    const marketAddress = marketsByAddress.get(e.address.toLowerCase());
+    if (!marketAddress) continue;
+    dirtyMarkets.add(marketAddress);
+    if (e.userAddress) {
+      dirtyInvestments.set(`${marketAddress}:${e.userAddress}`, { marketAddress, userAddress: e.userAddress });
+      dirtyBalances.add(e.userAddress);
+    }
+  }
+
+  // Only refresh balances for transfer parties we already track
+  if (transferParties.size > 0) {
+    const candidates = [...transferParties].flatMap(a => [a, a.toLowerCase()]);
+    const known = await UserBalance.find({ chainId, userAddress: { $in: candidates } }).select('userAddress').lean();
+    known.forEach(b => dirtyBalances.add(b.userAddress));
+  }
+
+  for (const marketAddress of dirtyMarkets) {
+    await syncMarketToCache(marketAddress, provider);
+  }
+  for (const { marketAddress, userAddress } of dirtyInvestments.values()) {
+    await syncUserInvestmentToCache(marketAddress, userAddress, provider);
+  }
+  for (const userAddress of dirtyBalances) {
+    await syncUserBalanceToCache(userAddress, provider);
+  }
+
+  return { markets: dirtyMarkets.size, investments: dirtyInvestments.size, balances: dirtyBalances.size };
+}
+
+// One pass per chain at a time: the interval tick and POST /api/admin/indexer/run share a running pass
+const runningPasses = new Map<number, Promise<void>>();
+
+export function runIndexer(provider: ethers.JsonRpcProvider): Promise<void> {
+  const chainId = getProviderChainId(provider);
+  const running = runningPasses.get(chainId);
+  if (running) return running;
+  const pass = indexPass(provider).finally(() => runningPasses.delete(chainId));
+  runningPasses.set(chainId, pass);
+  return pass;
+}
+
+async function indexPass(provider: ethers.JsonRpcProvider) {
+  const { confirmations, batchSize, startBlock } = getIndexerConfig();
+  const head = await provider.getBlockNumber();
+  const key = checkpointKey(getProviderChainId(provider));
+
+  let checkpoint = await IndexerCheckpoint.findOne({ key });
+  if (!checkpoint) {
+    // First run: take a full snapshot of every market, then follow events from here on
+    await syncMarketPhases(provider);
+    checkpoint = await IndexerCheckpoint.create({
+      key,
+      blockNumber: startBlock !== undefined ? startBlock - 1 : head,
+    });
+    console.log(`📍 Indexer checkpoint ${key} initialised at block ${checkpoint.blockNumber}`);
+  }
+
+  // Rewind by the confirmation window so reorged blocks get re-indexed
+  let fromBlock = Math.max(0, checkpoint.blockNumber - confirmations + 1);
+  while (fromBlock <= head) {
+    const toBlock = Math.min(head, fromBlock + batchSize - 1);
+    await indexRange(provider, fromBlock, toBlock, checkpoint.blockNumber);
+    checkpoint.blockNumber = Math.max(checkpoint.blockNumber, toBlock);
+    await checkpoint.save();
+    fromBlock = toBlock + 1;
+  }
+}
+
+export async function getIndexerStatus(provider: ethers.JsonRpcProvider) {
+  const chainId = getProviderChainId(provider);
+  const [checkpoint, head, eventCount] = await Promise.all([
+    IndexerCheckpoint.findOne({ key: checkpointKey(chainId) }).lean(),
+    provider.getBlockNumber(),
+    MarketEvent.countDocuments({ chainId }),
+  ]);
+  return {
+    chainId,
+    checkpoint: checkpoint?.blockNumber ?? null,
+    head,
+    lag: checkpoint ? head - checkpoint.blockNumber : null,
+    eventCount,
+  };
+}
+
+export async function startIndexer(provider: ethers.JsonRpcProvider) {
+  const { intervalMs } = getIndexerConfig();
+
+  const tick = async () => {
+    try {
+      await runIndexer(provider);
+    } catch (error: any) {
+      console.error(`❌ Indexer error on chain ${getProviderChainId(provider)}:`, error.message || error);
+    }
+  };
+
+  await tick();
+  setInterval(tick, intervalMs);
+  console.log(`📡 Event indexer for chain ${getProviderChainId(provider)} running every ${intervalMs}ms`);
+}
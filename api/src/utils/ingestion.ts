@@ -0,0 +1,166 @@
+import { getDateOnly } from './constants';
+import { getSnapshot, prepareSnapshotEntries, rankingsChanged, saveLeaderboardSnapshot } from './leaderboard';
+import {
+  BatchOutcome,
+  IngestionBatch,
+  LeaderboardSource,
+  createFileDropSource,
+  createHttpSource,
+} from './ingestionSources';
+
+interface SourceRun {
+  source: string;
+  ranAt: Date;
+  batches: Array<{ id: string; outcome: BatchOutcome; index?: number; reason?: string }>;
+  error?: string;
+}
+
+// Last run per source, for GET /api/admin/ingestion
+const lastRuns = new Map<string, SourceRun>();
+
+function getIngestionConfig() {
+  return {
+    sources: (process.env.INGEST_SOURCES || '').split(',').map(s => s.trim()).filter(Boolean),
+    intervalMs: parseInt(process.env.INGEST_INTERVAL_MS || '300000', 10),
+    fileDir: process.env.INGEST_FILE_DIR || './ingest',
+    httpUrl: process.env.INGEST_HTTP_URL,
+    httpName: process.env.INGEST_HTTP_NAME,
+    httpMapping: process.env.INGEST_HTTP_MAPPING,
+    httpHeaders: process.env.INGEST_HTTP_HEADERS,
+    httpTimeoutMs: parseInt(process.env.INGEST_HTTP_TIMEOUT_MS || '10000', 10),
+  };
+}
+
+const MAPPING_FIELDS = ['items', 'date', 'name', 'rank', 'score', 'logo'];
+
+// A JSON object of strings from an env var, e.g. {"name":"project_name"}. Throws with the
+// variable name so the caller can report which setting is wrong.
+function parseStringMap(name: string, raw: string | undefined, allowedKeys?: string[]): Record<string, string> {
+  if (!raw) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`${name} is not valid JSON: ${error.message}`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  for (const [key, field] of Object.entries(value)) {
+    if (typeof field !== 'string') throw new Error(`${name}.${key} must be a string`);
+    if (allowedKeys && !allowedKeys.includes(key)) {
+      throw new Error(`${name} has unknown key "${key}" (expected ${allowedKeys.join(', ')})`);
+    }
+  }
+  return value as Record<string, string>;
+}
+
+// Sources enabled through INGEST_SOURCES (file, http)
+export function createConfiguredSources(): LeaderboardSource[] {
+  const config = getIngestionConfig();
+  return config.sources.flatMap(name => {
+    if (name === 'file') {
+      return [createFileDropSource(config.fileDir)];
+    }
+    if (name === 'http') {
+      if (!config.httpUrl) {
+        console.warn('⚠️  INGEST_SOURCES includes http but INGEST_HTTP_URL is not set');
+        return [];
+      }
+      try {
+        return [createHttpSource({
+          url: config.httpUrl,
+          name: config.httpName,
+          mapping: parseStringMap('INGEST_HTTP_MAPPING', config.httpMapping, MAPPING_FIELDS),
+          headers: parseStringMap('INGEST_HTTP_HEADERS', config.httpHeaders),
+          timeoutMs: config.httpTimeoutMs,
+        })];
+      } catch (error: any) {
+        // Keep the server and the other sources running
+        console.error(`❌ Ingestion: http source disabled - ${error.message}`);
+        return [];
+      }
+    }
+    console.warn(`⚠️  Unknown ingestion source: ${name}`);
+    return [];
+  });
+}
+
+// Validate a batch and save it as a new snapshot index unless the rankings match the date's latest snapshot
+async function ingestBatch(source: LeaderboardSource, batch: IngestionBatch) {
+  const prepared = await prepareSnapshotEntries(batch.entries);
+  if (prepared.errors.length > 0) {
+    return { outcome: 'rejected' as const, reason: prepared.errors.join('; ') };
+  }
+
+  const date = getDateOnly(batch.date ?? new Date());
+  const latest = await getSnapshot({ date });
+  if (latest && !rankingsChanged(latest.entries, prepared.entries)) {
+    return { outcome: 'unchanged' as const, index: latest.index };
+  }
+
+  const saved = await saveLeaderboardSnapshot(date, prepared.entries, `${source.name}:${batch.id}`);
+  return { outcome: 'saved' as const, index: saved.index };
+}
+
+export async function runIngestion(sources = createConfiguredSources()) {
+  const runs: SourceRun[] = [];
+
+  for (const source of sources) {
+    const run: SourceRun = { source: source.name, ranAt: new Date(), batches: [] };
+    try {
+      for (const batch of await source.fetchBatches()) {
+        let result: { outcome: BatchOutcome; index?: number; reason?: string };
+        try {
+          result = await ingestBatch(source, batch);
+        } catch (error: any) {
+          result = { outcome: 'rejected', reason: error.message };
+        }
+        if (result.outcome === 'rejected') {
+          console.warn(`⚠️  Ingestion: rejected ${source.name}:${batch.id} - ${result.reason}`);
+        }
+        await batch.complete?.(result.outcome);
+        run.batches.push({ id: batch.id, ...result });
+      }
+    } catch (error: any) {
+      console.error(`❌ Ingestion source ${source.name} failed:`, error.message || error);
+      run.error = error.message;
+    }
+    lastRuns.set(source.name, run);
+    runs.push(run);
+  }
+  return runs;
+}
+
+export function getIngestionStatus() {
+  const { sources, intervalMs } = getIngestionConfig();
+  return {
+    sources,
+    intervalMs,
+    lastRuns: [...lastRuns.values()],
+  };
+}
+
+export function startIngestion() {
+  const { intervalMs } = getIngestionConfig();
+  const sources = createConfiguredSources();
+  if (sources.length === 0) {
+    console.warn('⚠️  Ingestion enabled but no sources configured (INGEST_SOURCES)');
+    return;
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runIngestion(sources);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  setInterval(tick, intervalMs);
+  console.log(`📡 Leaderboard ingestion running every ${intervalMs}ms (${sources.map(s => s.name).join(', ')})`);
+}
@@ -0,0 +1,192 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SnapshotEntryInput } from './leaderboard';
+
+export type BatchOutcome = 'saved' | 'unchanged' | 'rejected';
+
+export interface IngestionBatch {
+  id: string; // File name or feed name, recorded as part of the snapshot source
+  date?: Date; // Snapshot date, today when omitted
+  entries: SnapshotEntryInput[];
+  // Called once the batch has been handled
+  complete?(outcome: BatchOutcome): Promise<void>;
+}
+
+// A source adapter returns the leaderboards it has available on each ingestion run
+export interface LeaderboardSource {
+  name: string;
+  fetchBatches(): Promise<IngestionBatch[]>;
+}
+
+// Where each field of an entry is found in the source data (dot paths, e.g. "data.projects")
+export interface FieldMapping {
+  items?: string; // Path to the entries array (root when omitted)
+  date?: string; // Path to the snapshot date, relative to the root
+  name: string;
+  rank?: string; // Ranks are derived from scores when omitted
+  score: string;
+  logo?: string;
+}
+
+const DEFAULT_MAPPING: FieldMapping = { name: 'name', rank: 'rank', score: 'score', logo: 'logo' };
+
+function getPath(value: unknown, dotPath?: string): unknown {
+  if (!dotPath) return value;
+  return dotPath.split('.').reduce<any>((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+  return date;
+}
+
+// Map raw rows to entries. Without ranks, projects are ranked by score (highest first).
+export function toEntries(rows: unknown[], mapping: FieldMapping = DEFAULT_MAPPING): SnapshotEntryInput[] {
+  const entries = rows.map((row, i) => {
+    const name = getPath(row, mapping.name);
+    const score = Number(getPath(row, mapping.score));
+    const rawRank = mapping.rank ? getPath(row, mapping.rank) : undefined;
+    const rank = rawRank === undefined || rawRank === '' ? NaN : Number(rawRank);
+    const logo = mapping.logo ? getPath(row, mapping.logo) : undefined;
+    if (!name || !Number.isFinite(score)) {
+      throw new Error(`Row ${i + 1} is missing a name or numeric score`);
+    }
+    return { name: String(name).trim(), rank, score, logo: logo ? String(logo) : undefined };
+  });
+
+  if (entries.every(e => isNaN(e.rank))) {
+    [...entries].sort((a, b) => b.score - a.score).forEach((e, i) => { e.rank = i + 1; });
+  } else if (entries.some(e => isNaN(e.rank))) {
+    throw new Error('Either every row or no row must have a rank');
+  }
+  return entries;
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, commas and newlines inside quotes
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return data.map(cells => Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()])));
+}
+
+// JSON (an entries array or { date, entries }) and CSV (name,rank,score[,logo]) files dropped into
+// a directory. Handled files are moved to processed/ or failed/. A YYYY-MM-DD in the file name
+// sets the snapshot date.
+export function createFileDropSource(dir: string): LeaderboardSource {
+  const moveTo = async (file: string, folder: 'processed' | 'failed') => {
+    await fs.mkdir(path.join(dir, folder), { recursive: true });
+    await fs.rename(path.join(dir, file), path.join(dir, folder, `${Date.now()}-${file}`));
+  };
+
+  return {
+    name: 'file',
+    async fetchBatches() {
+      await fs.mkdir(dir, { recursive: true });
+      const files = (await fs.readdir(dir))
+        .filter(f => /\.(json|csv)$/i.test(f))
+        .sort();
+
+      const batches: IngestionBatch[] = [];
+      for (const file of files) {
+        try {
+          const content = await fs.readFile(path.join(dir, file), 'utf8');
+          const dateInName = /(\d{4}-\d{2}-\d{2})/.exec(file)?.[1];
+          let date = parseDate(dateInName);
+          let rows: unknown[];
+
+          if (/\.csv$/i.test(file)) {
+            rows = parseCsv(content);
+          } else {
+            const json = JSON.parse(content);
+            rows = Array.isArray(json) ? json : json.entries;
+            date = parseDate(json.date) ?? date;
+            if (!Array.isArray(rows)) throw new Error('Expected an array or { date, entries }');
+          }
+
+          batches.push({
+            id: file,
+            date,
+            entries: toEntries(rows),
+            complete: outcome => moveTo(file, outcome === 'rejected' ? 'failed' : 'processed'),
+          });
+        } catch (error: any) {
+          console.error(`❌ Ingestion: could not parse ${file}:`, error.message);
+          await moveTo(file, 'failed');
+        }
+      }
+      return batches;
+    },
+  };
+}
+
+// A JSON HTTP feed polled on every run, with fields located through `mapping`
+export function createHttpSource(options: {
+  url: string;
+  name?: string; // Recorded as the snapshot source instead of the feed's host
+  mapping?: Partial<FieldMapping>;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}): LeaderboardSource {
+  const mapping = { ...DEFAULT_MAPPING, ...options.mapping };
+  // Never the full URL: feed URLs often carry API keys, and sources are listed with snapshots
+  const id = options.name || new URL(options.url).host;
+
+  return {
+    name: 'http',
+    async fetchBatches() {
+      const response = await fetch(options.url, {
+        headers: { Accept: 'application/json', ...options.headers },
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+      });
+      if (!response.ok) {
+        throw new Error(`Feed responded with ${response.status} ${response.statusText}`);
+      }
+
+      const json = await response.json();
+      const rows = getPath(json, mapping.items);
+      if (!Array.isArray(rows)) {
+        throw new Error(`No entries array at "${mapping.items ?? '(root)'}"`);
+      }
+
+      return [{
+        id,
+        date: mapping.date ? parseDate(getPath(json, mapping.date)) : undefined,
+        entries: toEntries(rows, mapping),
+      }];
+    },
+  };
+}
@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { Counter, LeaderboardEntry, LeaderboardSnapshot, Market } from '../db';
+import { getDateOnly, toProjectSlug } from './constants';
+import { findProject, getProjectKeys, resolveProjectNames } from './projects';
+import { publishLeaderboardUpdate } from './stream';
+
+// Highest snapshot index stored for a date, or null if there is none
+export async function getLatestSnapshotIndex(date: Date): Promise<number | null> {
+  const maxIndexDoc = await LeaderboardEntry.findOne({ date: getDateOnly(date) })
+    .sort({ index: -1 })
+    .select('index')
+    .lean();
+  return maxIndexDoc ? maxIndexDoc.index : null;
+}
+
+// Get leaderboard for a specific date (highest index)
+export async function getLeaderboardForDate(date: Date): Promise<any[]> {
+  const dateOnly = getDateOnly(date);
+
+  // Find the highest index for this date
+  const maxIndex = await getLatestSnapshotIndex(dateOnly);
+
+  if (maxIndex === null) {
+    console.log(`⚠️  No leaderboard entries found for date: ${dateOnly.toISOString().split('T')[0]}`);
+    return [];
+  }
+
+  console.log(`📈 Using leaderboard index ${maxIndex} for date: ${dateOnly.toISOString().split('T')[0]}`);
+
+  // Get all entries for this date and index, sorted by rank
+  const entries = await LeaderboardEntry.find({ date: dateOnly, index: maxIndex })
+    .sort({ rank: 1 })
+    .lean();
+
+  return entries;
+}
+
+export interface SnapshotRef {
+  date: Date;
+  index?: number; // Latest index for the date when omitted
+}
+
+// Parse `YYYY-MM-DD` or `YYYY-MM-DD:index`
+export function parseSnapshotRef(ref: string): SnapshotRef | null {
+  const match = /^(\d{4}-\d{2}-\d{2})(?::(\d+))?$/.exec(ref);
+  if (!match) return null;
+  const date = new Date(match[1]);
+  if (isNaN(date.getTime())) return null;
+  return { date: getDateOnly(date), index: match[2] !== undefined ? parseInt(match[2], 10) : undefined };
+}
+
+export async function getSnapshot(ref: SnapshotRef) {
+  const date = getDateOnly(ref.date);
+  const index = ref.index ?? await getLatestSnapshotIndex(date);
+  if (index === null) return null;
+
+  const entries = await LeaderboardEntry.find({ date, index }).sort({ rank: 1 }).lean();
+  if (entries.length === 0) return null;
+  return { date, index, entries };
+}
+
+interface RankedEntry {
+  name: string;
+  rank: number;
+  score: number;
+}
+
+// Per-project rank/score deltas between two snapshots. rankDelta is positive when a project moved up.
+// Entries are matched by keyOf (project slug, see getProjectKeys), so a renamed project isn't reported
+// as a drop-out plus a new entrant; it is listed under its newer name.
+export function diffLeaderboards(
+  fromEntries: RankedEntry[],
+  toEntries: RankedEntry[],
+  topN = 10,
+  keyOf: (name: string) => string = toProjectSlug
+) {
+  const fromByKey = new Map(fromEntries.map(e => [keyOf(e.name), e]));
+  const toByKey = new Map(toEntries.map(e => [keyOf(e.name), e]));
+  const keys = [...new Set([...toByKey.keys(), ...fromByKey.keys()])];
+
+  const projects = keys.map(key => {
+    const before = fromByKey.get(key);
+    const after = toByKey.get(key);
+    const status = !before ? 'new' : !after ? 'dropped' : before.rank === after.rank ? 'unchanged' : 'moved';
+    return {
+      name: (after ?? before)!.name,
+      status,
+      fromRank: before?.rank ?? null,
+      toRank: after?.rank ?? null,
+      rankDelta: before && after ? before.rank - after.rank : null,
+      fromScore: before?.score ?? null,
+      toScore: after?.score ?? null,
+      scoreDelta: before && after ? after.score - before.score : null,
+    };
+  });
+
+  // Current ranking first, dropped projects after in their old order
+  projects.sort((a, b) => (a.toRank ?? Infinity) - (b.toRank ?? Infinity) || (a.fromRank ?? 0) - (b.fromRank ?? 0));
+
+  const inTop = (rank: number | null) => rank !== null && rank <= topN;
+  return {
+    projects,
+    newEntrants: projects.filter(p => p.status === 'new').map(p => p.name),
+    dropouts: projects.filter(p => p.status === 'dropped').map(p => p.name),
+    enteredTop: projects.filter(p => inTop(p.toRank) && !inTop(p.fromRank)).map(p => p.name),
+    leftTop: projects.filter(p => inTop(p.fromRank) && !inTop(p.toRank)).map(p => p.name),
+  };
+}
+
+// Every snapshot index stored for a date with its entry count, when it was written, hash and lock state
+export async function listSnapshots(date: Date) {
+  const dateOnly = getDateOnly(date);
+  const [snapshots, metas] = await Promise.all([
+    LeaderboardEntry.aggregate([
+      { $match: { date: dateOnly } },
+      { $group: { _id: '$index', count: { $sum: 1 }, createdAt: { $min: '$createdAt' } } },
+      { $sort: { _id: 1 } },
+    ]),
+    LeaderboardSnapshot.find({ date: dateOnly }).lean(),
+  ]);
+  const metaByIndex = new Map(metas.map(m => [m.index, m]));
+  return snapshots.map(s => {
+    const meta = metaByIndex.get(s._id);
+    return {
+      index: s._id as number,
+      count: s.count as number,
+      createdAt: s.createdAt as Date | null,
+      hash: meta?.hash ?? null,
+      source: meta?.source ?? null,
+      locked: !!meta?.lockedAt,
+    };
+  });
+}
+
+// A project's rank and score in every snapshot of the last `days` days (rank null when absent).
+// Entries are matched by project slug, so points from before a rename are included.
+export async function getProjectTimeline(name: string, days: number) {
+  const since = getDateOnly(new Date());
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const [snapshots, storedNames, project] = await Promise.all([
+    LeaderboardEntry.aggregate([
+      { $match: { date: { $gte: since } } },
+      { $group: { _id: { date: '$date', index: '$index' }, createdAt: { $min: '$createdAt' } } },
+      { $sort: { '_id.date': 1, '_id.index': 1 } },
+    ]),
+    LeaderboardEntry.distinct('name', { date: { $gte: since } }) as Promise<string[]>,
+    findProject(name),
+  ]);
+  const key = project?.slug ?? toProjectSlug(name);
+  const keyOf = await getProjectKeys(storedNames);
+  const entries = await LeaderboardEntry.find({
+    date: { $gte: since },
+    name: { $in: storedNames.filter(n => keyOf(n) === key) },
+  }).sort({ date: 1, index: 1 }).lean();
+
+  const byKey = new Map(entries.map(e => [`${e.date.getTime()}:${e.index}`, e]));
+  return {
+    name: project?.name ?? entries[entries.length - 1]?.name ?? name,
+    since,
+    points: snapshots.map(s => {
+      const entry = byKey.get(`${new Date(s._id.date).getTime()}:${s._id.index}`);
+      return {
+        date: new Date(s._id.date).toISOString().split('T')[0],
+        index: s._id.index as number,
+        createdAt: s.createdAt as Date | null,
+        rank: entry?.rank ?? null,
+        score: entry?.score ?? null,
+      };
+    }),
+  };
+}
+
+export interface SnapshotEntryInput {
+  name: string;
+  rank: number;
+  score: number;
+  logo?: string;
+}
+
+const MAX_REPORTED_ERRORS = 20;
+
+// Each entry needs a name, a positive integer rank and a finite score
+function validateEntryShapes(entries: unknown): string[] {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return ['entries must be a non-empty array'];
+  }
+  const errors: string[] = [];
+  entries.forEach((entry, i) => {
+    const label = `entries[${i}]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { name, rank, score, logo } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) errors.push(`${label}.name must be a non-empty string`);
+    if (!Number.isInteger(rank) || (rank as number) < 1) errors.push(`${label}.rank must be a positive integer`);
+    if (typeof score !== 'number' || !Number.isFinite(score)) errors.push(`${label}.score must be a number`);
+    if (logo !== undefined && typeof logo !== 'string') errors.push(`${label}.logo must be a string`);
+  });
+  return errors;
+}
+
+// Ranks are exactly 1..N, every project appears once and scores never rise as rank increases
+export function validateRankings(entries: RankedEntry[]): string[] {
+  const errors: string[] = [];
+  const sorted = [...entries].sort((a, b) => a.rank - b.rank);
+
+  const seenNames = new Set<string>();
+  sorted.forEach((entry, i) => {
+    if (entry.rank !== i + 1) {
+      errors.push(sorted[i - 1]?.rank === entry.rank
+        ? `Duplicate rank ${entry.rank}`
+        : `Rank ${i + 1} is missing (found ${entry.rank})`);
+    }
+    if (seenNames.has(entry.name)) errors.push(`${entry.name} appears more than once`);
+    seenNames.add(entry.name);
+    const previous = sorted[i - 1];
+    if (previous && entry.score > previous.score) {
+      errors.push(`${entry.name} (rank ${entry.rank}) scores ${entry.score}, above rank ${previous.rank} (${previous.score})`);
+    }
+  });
+  return errors;
+}
+
+// Validate raw snapshot input and resolve names against the project registry
+// (canonical name, registry logo as fallback). Entries are sorted by rank.
+export async function prepareSnapshotEntries(input: unknown) {
+  const shapeErrors = validateEntryShapes(input);
+  if (shapeErrors.length > 0) {
+    return { entries: [], unknown: [], errors: shapeErrors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const raw = input as SnapshotEntryInput[];
+  const { resolved, unknown } = await resolveProjectNames(raw.map(e => e.name));
+  if (unknown.length > 0) {
+    return { entries: [], unknown, errors: [`Unknown projects: ${unknown.join(', ')}`] };
+  }
+
+  const entries = raw
+    .map(entry => {
+      const project = resolved.get(entry.name)!;
+      return {
+        name: project.name,
+        rank: entry.rank,
+        score: entry.score,
+        logo: entry.logo || project.logo || '',
+      };
+    })
+    .sort((a, b) => a.rank - b.rank);
+  // Checked after normalization so two aliases of one project count as a duplicate
+  const errors = validateRankings(entries).slice(0, MAX_REPORTED_ERRORS);
+  return { entries: errors.length > 0 ? [] : entries, unknown, errors };
+}
+
+// Canonical content hash: sha256 over [rank, name, score] in rank order (logos excluded)
+export function hashSnapshotEntries(entries: RankedEntry[]) {
+  const canonical = [...entries]
+    .sort((a, b) => a.rank - b.rank)
+    .map(e => [e.rank, e.name, e.score]);
+  return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+// True when the order of projects differs from the previous snapshot
+export function rankingsChanged(previous: RankedEntry[], next: RankedEntry[]) {
+  if (previous.length !== next.length) return true;
+  const previousRanks = new Map(previous.map(e => [e.name, e.rank]));
+  return next.some(e => previousRanks.get(e.name) !== e.rank);
+}
+
+// Next snapshot index for a date from its counter, never below the latest stored index + 1
+async function allocateSnapshotIndex(dateOnly: Date): Promise<number> {
+  const key = `snapshot:${dateOnly.toISOString().split('T')[0]}`;
+  const latestIndex = await getLatestSnapshotIndex(dateOnly);
+  const floor = latestIndex === null ? 0 : latestIndex + 1;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const counter = await Counter.findOneAndUpdate(
+        { key },
+        [{ $set: { value: { $add: [{ $max: [{ $ifNull: ['$value', 0] }, floor] }, 1] } } }],
+        { upsert: true, new: true }
+      );
+      return counter!.value - 1;
+    } catch (error: any) {
+      // Two first saves of the day both tried to create the counter - the loser retries
+      if (error?.code !== 11000 || attempt > 0) throw error;
+    }
+  }
+}
+
+// Store validated entries as the next index for the date and notify stream subscribers
+export async function saveLeaderboardSnapshot(date: Date, entries: SnapshotEntryInput[], source: string) {
+  const errors = validateRankings(entries);
+  if (errors.length > 0) {
+    throw new Error(`Invalid leaderboard snapshot: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}`);
+  }
+
+  const dateOnly = getDateOnly(date);
+  const index = await allocateSnapshotIndex(dateOnly);
+  const hash = hashSnapshotEntries(entries);
+
+  await LeaderboardEntry.insertMany(entries.map(entry => ({ ...entry, date: dateOnly, index, source })));
+  await LeaderboardSnapshot.findOneAndUpdate(
+    { date: dateOnly, index },
+    { hash, entryCount: entries.length, source },
+    { upsert: true }
+  );
+
+  const dateStr = dateOnly.toISOString().split('T')[0];
+  console.log(`✅ Saved leaderboard snapshot: ${dateStr}, index ${index}, ${entries.length} projects (source: ${source}, hash ${hash.slice(0, 12)})`);
+  publishLeaderboardUpdate({ date: dateStr, index, count: entries.length, source, hash });
+
+  return { date: dateStr, index, count: entries.length, hash };
+}
+
+// Freeze a snapshot once a market resolves against it; returns its content hash
+export async function lockSnapshot(date: Date, index: number, marketAddress: string) {
+  const snapshot = await LeaderboardSnapshot.findOneAndUpdate(
+    { date: getDateOnly(date), index },
+    { $addToSet: { lockedBy: marketAddress }, $min: { lockedAt: new Date() } },
+    { new: true }
+  );
+  return snapshot?.hash;
+}
+
+// Undo lockSnapshot for a market whose resolve didn't go through. The snapshot stays locked
+// while any other market holds it.
+export async function unlockSnapshot(date: Date, index: number, marketAddress: string) {
+  const filter = { date: getDateOnly(date), index };
+  await LeaderboardSnapshot.updateOne(filter, { $pull: { lockedBy: marketAddress } });
+  await LeaderboardSnapshot.updateOne({ ...filter, lockedBy: { $size: 0 } }, { $unset: { lockedAt: 1 } });
+}
+
+// Hash snapshots stored before hashing existed (seed data, older versions) and lock the
+// ones that markets have already resolved against
+export async function ensureSnapshotMetadata() {
+  const [stored, existing] = await Promise.all([
+    LeaderboardEntry.aggregate([
+      {
+        $group: {
+          _id: { date: '$date', index: '$index' },
+          source: { $first: '$source' },
+          createdAt: { $min: '$createdAt' },
+        },
+      },
+    ]),
+    LeaderboardSnapshot.find().select('date index').lean(),
+  ]);
+  const known = new Set(existing.map(s => `${s.date.getTime()}:${s.index}`));
+  const missing = stored.filter(s => !known.has(`${new Date(s._id.date).getTime()}:${s._id.index}`));
+
+  for (const { _id, source, createdAt } of missing) {
+    const entries = await LeaderboardEntry.find({ date: _id.date, index: _id.index }).lean();
+    // Keep when the entries were written, resolution orders snapshots by it
+    const writtenAt = createdAt ?? _id.date;
+    await LeaderboardSnapshot.updateOne(
+      { date: _id.date, index: _id.index },
+      {
+        $setOnInsert: {
+          hash: hashSnapshotEntries(entries),
+          entryCount: entries.length,
+          source: source ?? 'seed',
+          createdAt: writtenAt,
+          updatedAt: writtenAt,
+        },
+      },
+      { upsert: true, timestamps: false }
+    );
+  }
+  if (missing.length > 0) {
+    console.log(`🔏 Hashed ${missing.length} existing leaderboard snapshots`);
+  }
+
+  const resolved = await Market.find({ resolvedSnapshotDate: { $exists: true } })
+    .select('marketAddress resolvedSnapshotDate resolvedSnapshotIndex')
+    .lean();
+  for (const market of resolved) {
+    if (market.resolvedSnapshotDate && market.resolvedSnapshotIndex !== undefined) {
+      await lockSnapshot(market.resolvedSnapshotDate, market.resolvedSnapshotIndex, market.marketAddress);
+    }
+  }
+}
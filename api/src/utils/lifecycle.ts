@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+import { Market, MarketDoc } from '../db';
+import { MARKET_ADMIN_ABI } from './constants';
+import { describeMarket } from './resolution';
+import { refreshRoundsForMarkets } from './rounds';
+import { syncMarketToCache } from './sync';
+import { enqueueTransaction, findInFlightTransaction, registerTransactionHandler } from './txManager';
+
+const marketInterface = new ethers.Interface(MARKET_ADMIN_ABI);
+
+export interface CloseResult {
+  marketAddress: string;
+  phase: number;
+  status: string;
+  lockTime?: number;
+  canClose?: boolean;
+  txId?: string;
+}
+
+// Mark the market locked once the close transaction is mined
+registerTransactionHandler('close', async (tx, receipt, provider) => {
+  if (tx.status !== 'mined') return;
+  const marketAddress = tx.context?.marketAddress as string;
+  await Market.findOneAndUpdate(
+    { marketAddress, chainId: tx.chainId },
+    { phase: 1, status: 'locked', lastTxHash: tx.hash }
+  );
+  await refreshRoundsForMarkets(tx.chainId, [marketAddress]);
+  if (tx.context?.enableCache) {
+    await syncMarketToCache(marketAddress, provider);
+  }
+});
+
+// Queue a close transaction for a market if it is still trading and its lockTime has passed
+export async function closeMarket(
+  market: MarketDoc,
+  provider: ethers.JsonRpcProvider,
+  options: { currentTime: number; enableCache?: boolean }
+): Promise<CloseResult> {
+  const { currentTime, enableCache } = options;
+  const marketName = describeMarket(market);
+  const contract = new ethers.Contract(market.marketAddress, MARKET_ADMIN_ABI, provider);
+  const phase: number = Number(await contract.phase());
+  const lockTime: number = Number(await contract.lockTime());
+
+  if (phase !== 0) {
+    console.log(`  ⏭️  ${marketName}: Already in phase ${phase}`);
+    return {
+      marketAddress: market.marketAddress,
+      phase,
+      status: 'already-closed-or-not-trading',
+      lockTime,
+    };
+  }
+
+  // Check if lockTime has passed
+  if (currentTime < lockTime) {
+    const waitSeconds = lockTime - currentTime;
+    const waitHours = Math.floor(waitSeconds / 3600);
+    const waitMinutes = Math.floor((waitSeconds % 3600) / 60);
+    console.log(`  ⏳ ${marketName}: Not ready (lockTime: ${new Date(lockTime * 1000).toISOString()})`);
+    return {
+      marketAddress: market.marketAddress,
+      phase,
+      status: `not-ready (lockTime in ${waitHours}h ${waitMinutes}m)`,
+      lockTime,
+      canClose: false,
+    };
+  }
+
+  // Don't queue a second close while one is in flight
+  const inFlight = await findInFlightTransaction('close', market.marketAddress, market.chainId);
+  if (inFlight) {
+    console.log(`  ⏳ ${marketName}: Close already in flight (${inFlight._id})`);
+    return {
+      marketAddress: market.marketAddress,
+      phase,
+      status: `close-pending (${inFlight._id})`,
+      lockTime,
+      canClose: true,
+      txId: String(inFlight._id),
+    };
+  }
+
+  // Close the market
+  console.log(`  🔒 Closing ${marketName}...`);
+  const tx = await enqueueTransaction(provider, {
+    signer: 'admin',
+    kind: 'close',
+    to: market.marketAddress,
+    data: marketInterface.encodeFunctionData('close'),
+    context: { marketAddress: market.marketAddress, enableCache },
+  });
+
+  return {
+    marketAddress: market.marketAddress,
+    phase,
+    status: `close-submitted (${tx.id})`,
+    lockTime,
+    canClose: true,
+    txId: tx.id,
+  };
+}
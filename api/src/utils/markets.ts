@@ -0,0 +1,195 @@
+import { Market, MarketAttrs, MarketPoolSnapshot } from '../db';
+import { impliedOddsFromStrings } from './odds';
+import { toPoolSortKey } from './constants';
+import { marketProjectFilter } from './projects';
+
+export const MARKET_SORTS = ['lockTime', 'pool', 'activity'] as const;
+export type MarketSort = typeof MARKET_SORTS[number];
+
+export interface MarketListOptions {
+  type?: 'top10' | 'h2h';
+  status?: string;
+  projectNames?: string[]; // Names of one project (current and pre-rename), matched against projectName, projectA and projectB
+  roundIds?: string[]; // All rounds when omitted
+  chainId?: number; // All chains when omitted
+  minPool?: bigint; // Total pool in wei
+  sort: MarketSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+}
+
+// Response shape of market listings. Absent values are null so every field is always present.
+export interface MarketDto {
+  chainId: number;
+  marketAddress: string;
+  marketId: string;
+  questionHash: string;
+  question: string | null;
+  type: 'top10' | 'h2h';
+  projectName: string | null;
+  projectA: string | null;
+  projectB: string | null;
+  lockTime: number;
+  resolveTime: number;
+  phase: number;
+  status: string;
+  winner: number | null;
+  poolA: string; // wei
+  poolB: string;
+  totalPool: string;
+  impliedOdds: ReturnType<typeof impliedOddsFromStrings>;
+  roundId: string | null;
+  deploymentDate: string | null; // YYYY-MM-DD
+  deploymentIndex: number | null;
+  resolvedSnapshot: { date: string; index: number | null; hash: string | null } | null;
+  resolvedAt: Date | null;
+  lastActivityAt: Date | null; // Last pool or phase change
+  lastSyncedAt: Date | null;
+}
+
+export function toMarketDto(market: MarketAttrs): MarketDto {
+  const poolA = market.poolA || '0';
+  const poolB = market.poolB || '0';
+  return {
+    chainId: market.chainId,
+    marketAddress: market.marketAddress,
+    marketId: market.marketId,
+    questionHash: market.questionHash,
+    question: market.question ?? null,
+    type: market.type,
+    projectName: market.projectName ?? null,
+    projectA: market.projectA ?? null,
+    projectB: market.projectB ?? null,
+    lockTime: market.lockTime,
+    resolveTime: market.resolveTime,
+    phase: market.phase ?? 0,
+    status: market.status ?? 'trading',
+    winner: market.winner || null,
+    poolA,
+    poolB,
+    totalPool: (BigInt(poolA) + BigInt(poolB)).toString(),
+    impliedOdds: impliedOddsFromStrings(poolA, poolB),
+    roundId: market.roundId ?? null,
+    deploymentDate: market.deploymentDate ? market.deploymentDate.toISOString().split('T')[0] : null,
+    deploymentIndex: market.deploymentIndex ?? null,
+    resolvedSnapshot: market.resolvedSnapshotDate
+      ? {
+        date: market.resolvedSnapshotDate.toISOString().split('T')[0],
+        index: market.resolvedSnapshotIndex ?? null,
+        hash: market.resolvedSnapshotHash ?? null,
+      }
+      : null,
+    resolvedAt: market.resolvedAt ?? null,
+    lastActivityAt: market.lastActivityAt?.getTime() ? market.lastActivityAt : null,
+    lastSyncedAt: market.lastSyncedAt ?? null,
+  };
+}
+
+// Time of the latest recorded pool or phase change per market, keyed by "<chainId>:<lowercase address>"
+async function getLastActivity(marketAddresses: string[]) {
+  const rows = await MarketPoolSnapshot.aggregate<{ _id: { chainId: number; marketAddress: string }; last: Date }>([
+    { $match: { marketAddress: { $in: marketAddresses.map(a => a.toLowerCase()) } } },
+    { $group: { _id: { chainId: '$chainId', marketAddress: '$marketAddress' }, last: { $max: '$timestamp' } } },
+  ]);
+  return new Map(rows.map(r => [`${r._id.chainId}:${r._id.marketAddress}`, r.last]));
+}
+
+// Fill totalPoolSort and lastActivityAt on markets stored before they existed
+export async function ensureMarketSortFields() {
+  const markets = await Market.find({ $or: [{ totalPoolSort: null }, { lastActivityAt: null }] })
+    .select('chainId marketAddress poolA poolB')
+    .lean();
+  if (markets.length === 0) return;
+
+  const activity = await getLastActivity(markets.map(m => m.marketAddress));
+  await Market.bulkWrite(markets.map(m => ({
+    updateOne: {
+      filter: { _id: m._id },
+      update: {
+        $set: {
+          totalPoolSort: toPoolSortKey(BigInt(m.poolA || '0') + BigInt(m.poolB || '0')),
+          lastActivityAt: activity.get(`${m.chainId}:${m.marketAddress.toLowerCase()}`) ?? new Date(0),
+        },
+      },
+    },
+  })));
+  console.log(`📇 Added sort fields to ${markets.length} markets`);
+}
+
+const SORT_FIELDS: Record<MarketSort, 'lockTime' | 'totalPoolSort' | 'lastActivityAt'> = {
+  lockTime: 'lockTime',
+  pool: 'totalPoolSort',
+  activity: 'lastActivityAt',
+};
+
+// Opaque cursor: the sort key and address of the last market on the previous page
+function encodeCursor(key: bigint, marketAddress: string) {
+  return Buffer.from(JSON.stringify([key.toString(), marketAddress])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { key: bigint; marketAddress: string } | null {
+  try {
+    const [key, marketAddress] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof marketAddress !== 'string') return null;
+    return { key: BigInt(key), marketAddress };
+  } catch {
+    return null;
+  }
+}
+
+function sortKey(market: MarketAttrs, sort: MarketSort): bigint {
+  if (sort === 'pool') return BigInt(market.totalPoolSort ?? '0');
+  if (sort === 'activity') return BigInt(market.lastActivityAt?.getTime() ?? 0);
+  return BigInt(market.lockTime);
+}
+
+// The stored value a cursor key stands for
+function sortValue(key: bigint, sort: MarketSort) {
+  if (sort === 'pool') return toPoolSortKey(key);
+  if (sort === 'activity') return new Date(Number(key));
+  return Number(key);
+}
+
+// Filtering, sorting and paging all run in MongoDB on the stored sort fields
+export async function listMarkets(options: MarketListOptions) {
+  const conditions: Record<string, unknown>[] = [];
+  if (options.type) conditions.push({ type: options.type });
+  if (options.status) conditions.push({ status: options.status });
+  if (options.roundIds) conditions.push({ roundId: { $in: options.roundIds } });
+  if (options.chainId !== undefined) conditions.push({ chainId: options.chainId });
+  if (options.projectNames) conditions.push(marketProjectFilter(options.projectNames));
+  if (options.minPool !== undefined) conditions.push({ totalPoolSort: { $gte: toPoolSortKey(options.minPool) } });
+  const filter = conditions.length > 0 ? { $and: conditions } : {};
+
+  // Address breaks ties so the order (and every cursor) is stable
+  const field = SORT_FIELDS[options.sort];
+  const direction = options.order === 'asc' ? 1 : -1;
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+  const pageFilter = after
+    ? {
+      $and: [
+        ...conditions,
+        {
+          $or: [
+            { [field]: { [direction === 1 ? '$gt' : '$lt']: sortValue(after.key, options.sort) } },
+            { [field]: sortValue(after.key, options.sort), marketAddress: { $gt: after.marketAddress } },
+          ],
+        },
+      ],
+    }
+    : filter;
+
+  const [markets, total] = await Promise.all([
+    Market.find(pageFilter).sort({ [field]: direction, marketAddress: 1 }).limit(options.limit + 1).lean(),
+    Market.countDocuments(filter),
+  ]);
+
+  const page = markets.slice(0, options.limit);
+  const last = page[page.length - 1];
+  return {
+    markets: page.map(m => toMarketDto(m)),
+    nextCursor: markets.length > options.limit && last ? encodeCursor(sortKey(last, options.sort), last.marketAddress) : null,
+    total,
+  };
+}
@@ -0,0 +1,138 @@
+import type { NextFunction, Request, Response } from 'express';
+
+type Labels = Record<string, string | number>;
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(String(v))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+interface Series {
+  labels: Labels;
+  value: number; // Counters and gauges
+  buckets: number[]; // Histograms: observations <= each bound (cumulative on render)
+  sum: number;
+  count: number;
+}
+
+// One metric family with a series per label combination, rendered in the Prometheus text format
+class Metric {
+  private series = new Map<string, Series>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    private bounds: number[] = []
+  ) {}
+
+  private get(labels: Labels) {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: 0, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.get(labels).value += value;
+  }
+
+  set(labels: Labels, value: number) {
+    this.get(labels).value = value;
+  }
+
+  observe(labels: Labels, value: number) {
+    const series = this.get(labels);
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  // Drop series that no longer exist (e.g. gauges rebuilt on every scrape)
+  reset() {
+    this.series.clear();
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const series of this.series.values()) {
+      if (this.type !== 'histogram') {
+        lines.push(`${this.name}${formatLabels(series.labels)} ${series.value}`);
+        continue;
+      }
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: bound })} ${series.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+const registry: Metric[] = [];
+
+function register(name: string, help: string, type: MetricType, bounds?: number[]) {
+  const metric = new Metric(name, help, type, bounds);
+  registry.push(metric);
+  return metric;
+}
+
+// RPC
+export const rpcRequests = register('rpc_requests_total', 'JSON-RPC requests sent to an endpoint', 'counter');
+export const rpcRequestDuration = register(
+  'rpc_request_duration_seconds', 'JSON-RPC request latency per endpoint attempt', 'histogram', DURATION_BUCKETS
+);
+export const rpcEndpointUp = register('rpc_endpoint_up', 'Whether the endpoint circuit is closed (1) or open/half-open (0)', 'gauge');
+
+// Market sync
+export const syncDuration = register(
+  'sync_market_phases_duration_seconds', 'Duration of a full market sync', 'histogram', [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+export const syncMarketFailures = register('sync_market_failures_total', 'Markets whose state could not be read during a sync', 'counter');
+
+// Entity cache
+export const cacheRequests = register('cache_requests_total', 'Entity cache reads by result (hit, stale, miss, bypass)', 'counter');
+
+// Faucet
+export const faucetRequests = register('faucet_requests_total', 'Faucet requests and queued transfers by result', 'counter');
+export const faucetSentTokens = register('faucet_sent_tokens_total', 'Stake tokens sent by the faucet', 'counter');
+export const faucetAvailableBalance = register('faucet_balance_tokens', 'Faucet balance available for new claims, as of the last request', 'gauge');
+
+// Admin
+export const closeAllResults = register('close_all_results_total', 'Per-market results of close-all runs', 'counter');
+
+// HTTP
+export const httpRequestDuration = register(
+  'http_request_duration_seconds', 'HTTP request latency by route and status', 'histogram', DURATION_BUCKETS
+);
+
+// Records every request under its route pattern (e.g. /api/markets/:address/info), not the raw path
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction) {
+  const started = process.hrtime.bigint();
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path === '/' ? '' : req.route.path}` || '/' : 'unmatched';
+    httpRequestDuration.observe(
+      { method: req.method, route, status: res.statusCode },
+      Number(process.hrtime.bigint() - started) / 1e9
+    );
+  });
+  next();
+}
+
+export function renderMetrics() {
+  return registry.map(m => m.render()).join('\n\n') + '\n';
+}
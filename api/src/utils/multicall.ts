@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import { getChain, getProviderChainId } from './chains';
+import { isRpcUnavailable } from './rpc';
+
+// Multicall3 is deployed at 0xcA11bde05977b3631167028862bE2a173976CA11 on most chains (incl. Base Sepolia)
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+] as const;
+
+export interface ChainCall {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: unknown[];
+}
+
+export interface ChainCallResult {
+  success: boolean;
+  value?: ethers.Result;
+  error?: string;
+}
+
+function getMulticallConfig(chainId: number) {
+  return {
+    address: getChain(chainId)?.multicallAddress || process.env.MULTICALL_ADDRESS,
+    batchSize: parseInt(process.env.MULTICALL_BATCH_SIZE || '500', 10),
+    concurrency: parseInt(process.env.RPC_CONCURRENCY || '8', 10),
+  };
+}
+
+// Like Promise.all(items.map(fn)) but with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function decodeResult(call: ChainCall, returnData: string): ChainCallResult {
+  try {
+    // Empty return data means there is no contract (or it reverted without data)
+    return { success: true, value: call.iface.decodeFunctionResult(call.method, returnData) };
+  } catch (error: any) {
+    return { success: false, error: error.shortMessage || error.message };
+  }
+}
+
+async function callIndividually(
+  provider: ethers.JsonRpcProvider,
+  calls: ChainCall[],
+  concurrency: number,
+  blockTag?: number
+) {
+  return mapWithConcurrency(calls, concurrency, async (call): Promise<ChainCallResult> => {
+    try {
+      const returnData = await provider.call({
+        to: call.target,
+        data: call.iface.encodeFunctionData(call.method, call.args ?? []),
+        blockTag,
+      });
+      return decodeResult(call, returnData);
+    } catch (error: any) {
+      // Reverts are per-call failures; network errors abort the whole batch
+      if (error.code !== 'CALL_EXCEPTION') throw error;
+      return { success: false, error: error.shortMessage || error.message };
+    }
+  });
+}
+
+async function callViaMulticall(
+  provider: ethers.JsonRpcProvider,
+  calls: ChainCall[],
+  multicallAddress: string,
+  batchSize: number,
+  concurrency: number,
+  blockTag?: number
+) {
+  const multicall = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+  const chunks: ChainCall[][] = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    chunks.push(calls.slice(i, i + batchSize));
+  }
+
+  const chunkResults = await mapWithConcurrency(chunks, concurrency, async chunk => {
+    const encoded = chunk.map(call => ({
+      target: call.target,
+      allowFailure: true,
+      callData: call.iface.encodeFunctionData(call.method, call.args ?? []),
+    }));
+    const results = await multicall.aggregate3.staticCall(encoded, { blockTag }) as Array<{ success: boolean; returnData: string }>;
+    return results.map((result, i): ChainCallResult =>
+      result.success
+        ? decodeResult(chunk[i], result.returnData)
+        : { success: false, error: 'execution reverted' }
+    );
+  });
+  return chunkResults.flat();
+}
+
+// Run many read-only calls in as few round trips as possible. Uses Multicall3 when the chain's
+// multicallAddress or MULTICALL_ADDRESS is set, otherwise parallel eth_calls limited to RPC_CONCURRENCY.
+// Reverting calls are reported per call rather than thrown. Reads the latest block unless blockTag is given.
+export async function batchCalls(
+  provider: ethers.JsonRpcProvider,
+  calls: ChainCall[],
+  blockTag?: number
+): Promise<ChainCallResult[]> {
+  if (calls.length === 0) return [];
+  const { address, batchSize, concurrency } = getMulticallConfig(getProviderChainId(provider));
+
+  if (address) {
+    try {
+      return await callViaMulticall(provider, calls, address, batchSize, concurrency, blockTag);
+    } catch (error: any) {
+      // Individual calls can't succeed when no endpoint is reachable either
+      if (isRpcUnavailable(error)) throw error;
+      console.warn(`⚠️  Multicall failed, falling back to individual calls:`, error.shortMessage || error.message);
+    }
+  }
+  return callIndividually(provider, calls, concurrency, blockTag);
+}
@@ -0,0 +1,79 @@
+import { ethers } from 'ethers';
+import { Contract } from '../db';
+
+const BPS = 10000n;
+
+export interface ImpliedOdds {
+  A: number; // Implied probability of side A winning (0-1)
+  B: number;
+}
+
+// Protocol fee in basis points, taken from the pot before winners are paid.
+// Configured as `feeBps` in the metadata of any contract registered for the chain (e.g. the factory).
+export async function getProtocolFeeBps(chainId: number): Promise<number> {
+  const contract = await Contract.findOne({ chainId, 'metadata.feeBps': { $exists: true } }).lean();
+  const feeBps = Number(contract?.metadata?.feeBps ?? 0);
+  return Number.isFinite(feeBps) && feeBps > 0 ? Math.min(feeBps, 10000) : 0;
+}
+
+function ratio(numerator: bigint, denominator: bigint): number {
+  if (denominator === 0n) return 0;
+  // Keep 1e6 precision without converting large bigints to floats directly
+  return Number((numerator * 1000000n) / denominator) / 1000000;
+}
+
+// Parimutuel implied probability: each side's share of the total pool (50/50 when empty)
+export function impliedOdds(poolA: bigint, poolB: bigint): ImpliedOdds {
+  const total = poolA + poolB;
+  if (total === 0n) return { A: 0.5, B: 0.5 };
+  const A = ratio(poolA, total);
+  return { A, B: 1 - A };
+}
+
+export function impliedOddsFromStrings(poolA?: string, poolB?: string): ImpliedOdds {
+  return impliedOdds(BigInt(poolA || '0'), BigInt(poolB || '0'));
+}
+
+// Payout if `side` wins for a stake of `amount` already included in the pools
+export function payoutIfWins(stake: bigint, sidePool: bigint, totalPool: bigint, feeBps: number): bigint {
+  if (sidePool === 0n) return 0n;
+  return (stake * totalPool * (BPS - BigInt(feeBps))) / (sidePool * BPS);
+}
+
+export function quoteDeposit(
+  poolA: bigint,
+  poolB: bigint,
+  side: 'A' | 'B',
+  amount: bigint,
+  feeBps: number
+) {
+  const sidePool = side === 'A' ? poolA : poolB;
+  const total = poolA + poolB;
+  const sidePoolAfter = sidePool + amount;
+  const totalAfter = total + amount;
+
+  const payout = payoutIfWins(amount, sidePoolAfter, totalAfter, feeBps);
+  const before = impliedOdds(poolA, poolB);
+  const after = impliedOdds(side === 'A' ? sidePoolAfter : poolA, side === 'B' ? sidePoolAfter : poolB);
+
+  // Marginal multiplier before the deposit vs. the effective multiplier actually received
+  const feeFactor = 1 - feeBps / 10000;
+  const marginalMultiplier = sidePool === 0n ? null : ratio(total, sidePool) * feeFactor;
+  const effectiveMultiplier = amount === 0n ? 0 : ratio(payout, amount);
+
+  return {
+    side,
+    amount: amount.toString(),
+    feeBps,
+    impliedOdds: { before, after },
+    expectedPayout: payout.toString(),
+    expectedPayoutFormatted: ethers.formatEther(payout),
+    expectedProfit: (payout - amount).toString(),
+    marginalMultiplier,
+    effectiveMultiplier,
+    // Fraction of the marginal multiplier lost by adding `amount` to the pool
+    priceImpact: marginalMultiplier ? Math.max(0, 1 - effectiveMultiplier / marginalMultiplier) : null,
+    // Change in this side's implied probability caused by the deposit
+    probabilityImpact: after[side] - before[side],
+  };
+}
@@ -0,0 +1,192 @@
+import { ethers } from 'ethers';
+import { Market, MarketDoc, MarketEvent, UserInvestment } from '../db';
+import { MARKET_ADMIN_ABI, OUTCOME_A, addressVariants } from './constants';
+import { getCurrentRoundMarkets } from './rounds';
+import { getProtocolFeeBps, impliedOddsFromStrings, payoutIfWins } from './odds';
+import { describeMarket } from './resolution';
+import { getProviderChainId } from './chains';
+import { isRpcUnavailable } from './rpc';
+import { formatCacheInfo } from './cache';
+import { balanceCache, cacheUserInvestment } from './sync';
+import { mapWithConcurrency } from './multicall';
+
+export type PositionStatus = 'pending' | 'redeemable' | 'won' | 'lost' | 'refunded';
+
+interface Holding {
+  marketAddress: string;
+  aClaims: bigint;
+  bClaims: bigint;
+  redeemed: boolean;
+}
+
+// Scan markets from the chain's current round for positions not in the cache yet
+async function discoverHoldings(
+  userAddress: string,
+  known: Set<string>,
+  provider: ethers.JsonRpcProvider,
+  enableCache: boolean
+): Promise<Holding[]> {
+  const chainId = getProviderChainId(provider);
+  const markets = (await getCurrentRoundMarkets(chainId))
+    .filter(m => !known.has(m.marketAddress.toLowerCase()));
+  if (markets.length === 0) return [];
+  const blockNumber = await provider.getBlockNumber();
+
+  // Same in-flight limit as batched chain reads
+  const concurrency = parseInt(process.env.RPC_CONCURRENCY || '8', 10);
+  const found = await mapWithConcurrency(markets, concurrency, async market => {
+    try {
+      const contract = new ethers.Contract(market.marketAddress, MARKET_ADMIN_ABI, provider);
+      const [aClaims, bClaims, redeemed] = await contract.a(userAddress, { blockTag: blockNumber }) as [bigint, bigint, boolean];
+      if (aClaims === 0n && bClaims === 0n) return null;
+      if (enableCache) {
+        await cacheUserInvestment(market.marketAddress, userAddress, chainId, { aClaims, bClaims, redeemed }, blockNumber);
+      }
+      return { marketAddress: market.marketAddress, aClaims, bClaims, redeemed };
+    } catch (error: any) {
+      if (isRpcUnavailable(error)) throw error;
+      console.warn(`⚠️  Could not read position in ${market.marketAddress}:`, error.message);
+      return null;
+    }
+  });
+
+  return found.filter((h): h is Holding => h !== null);
+}
+
+async function getStakeTokenBalance(userAddress: string, chainId: number, enableCache: boolean) {
+  const result = await balanceCache.get({ chainId, userAddress }, { enabled: enableCache });
+  if (!result) return { balance: '0', cached: false, cacheAgeMs: null, stale: false };
+  const { cached, cacheAgeMs, stale } = formatCacheInfo(result);
+  return { balance: result.value.toString(), cached, cacheAgeMs, stale };
+}
+
+function buildPosition(market: MarketDoc, holding: Holding, feeBps: number, redeemedPayout?: bigint) {
+  const { aClaims, bClaims, redeemed } = holding;
+  const poolA = BigInt(market.poolA || '0');
+  const poolB = BigInt(market.poolB || '0');
+  const total = poolA + poolB;
+  const stake = aClaims + bClaims;
+  const phase = market.phase ?? 0;
+
+  const payoutIfA = payoutIfWins(aClaims, poolA, total, feeBps);
+  const payoutIfB = payoutIfWins(bClaims, poolB, total, feeBps);
+
+  let status: PositionStatus;
+  let estimatedPayout: bigint;
+  let realizedPnl = 0n;
+  let unrealizedPnl = 0n;
+
+  if (phase === 3) {
+    // Cancelled markets refund stakes
+    estimatedPayout = stake;
+    status = redeemed ? 'refunded' : 'redeemable';
+  } else if (phase === 2 && market.winner) {
+    const winningClaims = market.winner === OUTCOME_A ? aClaims : bClaims;
+    estimatedPayout = market.winner === OUTCOME_A ? payoutIfA : payoutIfB;
+    if (winningClaims === 0n) {
+      status = 'lost';
+      realizedPnl = -stake;
+    } else if (redeemed) {
+      status = 'won';
+      realizedPnl = (redeemedPayout ?? estimatedPayout) - stake;
+    } else {
+      status = 'redeemable';
+      unrealizedPnl = estimatedPayout - stake;
+    }
+  } else {
+    // Still trading or locked: expected payout weighted by the pools' implied odds
+    status = 'pending';
+    estimatedPayout = total === 0n ? stake : (payoutIfA * poolA + payoutIfB * poolB) / total;
+    unrealizedPnl = estimatedPayout - stake;
+  }
+
+  return {
+    marketAddress: market.marketAddress,
+    market: describeMarket(market),
+    type: market.type,
+    projectName: market.projectName,
+    projectA: market.projectA,
+    projectB: market.projectB,
+    marketStatus: market.status,
+    phase,
+    winner: market.winner,
+    lockTime: market.lockTime,
+    resolveTime: market.resolveTime,
+    aClaims: aClaims.toString(),
+    bClaims: bClaims.toString(),
+    redeemed,
+    status,
+    stake: stake.toString(),
+    payoutIfA: payoutIfA.toString(),
+    payoutIfB: payoutIfB.toString(),
+    estimatedPayout: estimatedPayout.toString(),
+    realizedPnl: realizedPnl.toString(),
+    unrealizedPnl: unrealizedPnl.toString(),
+    impliedOdds: impliedOddsFromStrings(market.poolA, market.poolB),
+  };
+}
+
+export async function getPortfolio(
+  userAddress: string,
+  provider: ethers.JsonRpcProvider,
+  options: { discover: boolean; enableCache: boolean }
+) {
+  const chainId = getProviderChainId(provider);
+  const investments = await UserInvestment.find({ chainId, userAddress: { $in: addressVariants(userAddress) } }).lean();
+  const holdings: Holding[] = investments
+    .map(i => ({
+      marketAddress: i.marketAddress,
+      aClaims: BigInt(i.aClaims),
+      bClaims: BigInt(i.bClaims),
+      redeemed: i.redeemed,
+    }))
+    .filter(h => h.aClaims > 0n || h.bClaims > 0n);
+
+  let discoveryFailed = false;
+  if (options.discover) {
+    const known = new Set(holdings.map(h => h.marketAddress.toLowerCase()));
+    try {
+      holdings.push(...await discoverHoldings(userAddress, known, provider, options.enableCache));
+    } catch (error: any) {
+      // Report cached positions only
+      if (!isRpcUnavailable(error)) throw error;
+      discoveryFailed = true;
+    }
+  }
+
+  const [markets, redeemEvents, feeBps, balance] = await Promise.all([
+    Market.find({ chainId, marketAddress: { $in: holdings.flatMap(h => addressVariants(h.marketAddress)) } }),
+    MarketEvent.find({ chainId, event: 'Redeemed', userAddress: { $in: addressVariants(userAddress) } }).lean(),
+    getProtocolFeeBps(chainId),
+    getStakeTokenBalance(userAddress, chainId, options.enableCache),
+  ]);
+  const marketsByAddress = new Map(markets.map(m => [m.marketAddress.toLowerCase(), m]));
+  const redeemedPayouts = new Map(redeemEvents.map(e => [e.address.toLowerCase(), BigInt(e.args.payout as string)]));
+
+  const positions = holdings.flatMap(holding => {
+    const market = marketsByAddress.get(holding.marketAddress.toLowerCase());
+    if (!market) return [];
+    return [buildPosition(market, holding, feeBps, redeemedPayouts.get(holding.marketAddress.toLowerCase()))];
+  });
+
+  const sum = (key: 'stake' | 'estimatedPayout' | 'realizedPnl' | 'unrealizedPnl') =>
+    positions.reduce((acc, p) => acc + BigInt(p[key]), 0n).toString();
+
+  return {
+    address: userAddress,
+    chainId,
+    balance: balance.balance,
+    balanceCached: balance.cached,
+    balanceCacheAgeMs: balance.cacheAgeMs,
+    ...((discoveryFailed || balance.stale) && { stale: true }),
+    positions: positions.sort((a, b) => a.lockTime - b.lockTime),
+    totals: {
+      positions: positions.length,
+      stake: sum('stake'),
+      estimatedPayout: sum('estimatedPayout'),
+      realizedPnl: sum('realizedPnl'),
+      unrealizedPnl: sum('unrealizedPnl'),
+      redeemable: positions.filter(p => p.status === 'redeemable').length,
+    },
+  };
+}
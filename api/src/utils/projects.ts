@@ -0,0 +1,72 @@
+import { Market, Project, ProjectAttrs } from '../db';
+import { toProjectSlug } from './constants';
+
+// Look up a project by slug, display name or alias (case and punctuation insensitive)
+export async function findProject(nameOrSlug: string) {
+  const key = toProjectSlug(nameOrSlug);
+  if (!key) return null;
+  return Project.findOne({ $or: [{ slug: key }, { aliases: key }] });
+}
+
+// Map each name to its registered project. Names that match nothing are returned in `unknown`.
+export async function resolveProjectNames(names: string[]) {
+  const projects = await Project.find().lean();
+  const byKey = new Map<string, typeof projects[number]>();
+  for (const project of projects) {
+    byKey.set(project.slug, project);
+    project.aliases.forEach(alias => byKey.set(alias, project));
+  }
+
+  const resolved = new Map<string, typeof projects[number]>();
+  const unknown: string[] = [];
+  for (const name of new Set(names)) {
+    const project = byKey.get(toProjectSlug(name));
+    if (project) resolved.set(name, project);
+    else unknown.push(name);
+  }
+  return { resolved, unknown };
+}
+
+// Key projects by slug, so names from before a rename (now aliases) still match.
+// Names that aren't registered fall back to their own slug.
+export async function getProjectKeys(names: string[]) {
+  const { resolved } = await resolveProjectNames(names);
+  return (name: string) => resolved.get(name)?.slug ?? toProjectSlug(name);
+}
+
+// Names markets use for a project: its current name plus any older name that is now an alias.
+// Markets keep the name they were created with, so a rename doesn't change them.
+export async function findProjectMarketNames(project: ProjectAttrs) {
+  const keys = new Set([project.slug, ...project.aliases]);
+  const names = (await Promise.all(['projectName', 'projectA', 'projectB'].map(field => Market.distinct(field)))).flat();
+  return [...new Set([project.name, ...names.filter((n): n is string => typeof n === 'string' && keys.has(toProjectSlug(n)))])];
+}
+
+// Market filter matching any of the names in projectName, projectA or projectB
+export function marketProjectFilter(names: string[]) {
+  return { $or: [{ projectName: { $in: names } }, { projectA: { $in: names } }, { projectB: { $in: names } }] };
+}
+
+// Slugs (own slug plus aliases) already used by a different project
+export async function findKeyConflicts(keys: string[], excludeId?: unknown) {
+  const conflicts = await Project.find({
+    _id: { $ne: excludeId },
+    $or: [{ slug: { $in: keys } }, { aliases: { $in: keys } }],
+  }).lean();
+  return keys.filter(key => conflicts.some(p => p.slug === key || p.aliases.includes(key)));
+}
+
+export function normalizeAliases(aliases: unknown, slug: string): string[] {
+  if (!Array.isArray(aliases)) return [];
+  return [...new Set(aliases.map(a => toProjectSlug(String(a))).filter(a => a && a !== slug))];
+}
+
+export function formatProject(project: ProjectAttrs) {
+  return {
+    slug: project.slug,
+    name: project.name,
+    aliases: project.aliases,
+    logo: project.logo,
+    category: project.category,
+  };
+}
@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { Market, Contract, ProcessedReceipt } from '../db';
+import { MARKET_EVENTS_ABI, STAKE_TOKEN_ABI } from './constants';
+import { marketCache, investmentCache, balanceCache } from './sync';
+import { getProviderChainId } from './chains';
+
+const marketInterface = new ethers.Interface(MARKET_EVENTS_ABI);
+const stakeTokenInterface = new ethers.Interface(STAKE_TOKEN_ABI);
+
+export type ReceiptRefreshResult =
+  | { status: 'not-found' | 'pending' | 'reverted' | 'unknown-contracts' | 'too-many-entities' }
+  | { status: 'refreshed' | 'already-processed'; updated: string[] };
+
+// Cap on the entities one receipt may refresh, so a single hash can't trigger unbounded chain reads
+function getMaxReceiptRefreshes() {
+  return parseInt(process.env.RECEIPT_MAX_REFRESHES || '50', 10);
+}
+
+function isDuplicateKey(error: any) {
+  return error?.code === 11000;
+}
+
+// Refresh exactly the markets, investments and balances a mined transaction touched, as decoded
+// from its logs. Only logs of stored markets and stake token transfers into or out of them are
+// considered. Each transaction is refreshed once; replays return the stored result.
+export async function refreshFromReceipt(
+  txHash: string,
+  provider: ethers.JsonRpcProvider
+): Promise<ReceiptRefreshResult> {
+  const chainId = getProviderChainId(provider);
+  const hash = txHash.toLowerCase();
+  const previous = await ProcessedReceipt.findOne({ chainId, txHash: hash }).lean();
+  if (previous) {
+    return { status: 'already-processed', updated: previous.updated };
+  }
+
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    return { status: (await provider.getTransaction(txHash)) ? 'pending' : 'not-found' };
+  }
+  if (receipt.status !== 1) {
+    return { status: 'reverted' };
+  }
+
+  // Contracts the transaction called or that emitted its logs
+  const touched = [...new Set([receipt.to, ...receipt.logs.map(l => l.address)]
+    .filter((a): a is string => !!a)
+    .map(a => a.toLowerCase()))];
+  const [markets, stakeTokenContract] = await Promise.all([
+    Market.find({ chainId, marketAddress: { $in: touched.flatMap(a => [a, ethers.getAddress(a)]) } })
+      .select('marketAddress')
+      .lean(),
+    Contract.findOne({ type: 'stakeToken', chainId }).lean(),
+  ]);
+  const marketsByAddress = new Map(markets.map(m => [m.marketAddress.toLowerCase(), m.marketAddress]));
+  const stakeTokenAddress = stakeTokenContract?.address.toLowerCase();
+
+  const dirtyMarkets = new Set<string>();
+  const dirtyInvestments = new Map<string, { marketAddress: string; userAddress: string }>();
+  // Keyed by lowercased address, so a user seen in several logs is read once
+  const dirtyBalances = new Map<string, string>();
+
+  for (const log of receipt.logs) {
+    const address = log.address.toLowerCase();
+    if (address === stakeTokenAddress) {
+      const parsed = stakeTokenInterface.parseLog(log);
+      if (parsed?.name !== 'Transfer') continue;
+      // Only deposits into and payouts from stored markets; other transfers aren't ours to track
+      const parties = [parsed.args.from, parsed.args.to] as string[];
+      if (!parties.some(party => marketsByAddress.has(party.toLowerCase()))) continue;
+      for (const party of parties) {
+        if (party !== ethers.ZeroAddress && !marketsByAddress.has(party.toLowerCase())) {
+          dirtyBalances.set(party.toLowerCase(), party);
+        }
+      }
+      continue;
+    }
+
+    const marketAddress = marketsByAddress.get(address);
+    if (!marketAddress) continue;
+    const parsed = marketInterface.parseLog(log);
+    if (!parsed) continue;
+    dirtyMarkets.add(marketAddress);
+    const user = parsed.args.user as string | undefined;
+    if (user) {
+      dirtyInvestments.set(`${marketAddress}:${user.toLowerCase()}`, { marketAddress, userAddress: user });
+      dirtyBalances.set(user.toLowerCase(), user);
+    }
+  }
+
+  const knownTarget = receipt.to !== null
+    && (marketsByAddress.has(receipt.to.toLowerCase()) || receipt.to.toLowerCase() === stakeTokenAddress);
+  if (dirtyMarkets.size === 0 && dirtyBalances.size === 0 && !knownTarget) {
+    return { status: 'unknown-contracts' };
+  }
+
+  if (dirtyMarkets.size + dirtyInvestments.size + dirtyBalances.size > getMaxReceiptRefreshes()) {
+    return { status: 'too-many-entities' };
+  }
+
+  const updated: string[] = [];
+  for (const marketAddress of dirtyMarkets) {
+    await marketCache.refresh({ chainId, marketAddress });
+    updated.push(`market:${marketAddress}`);
+  }
+  for (const { marketAddress, userAddress } of dirtyInvestments.values()) {
+    await investmentCache.refresh({ chainId, marketAddress, userAddress });
+    updated.push(`investment:${marketAddress}:${userAddress}`);
+  }
+  for (const userAddress of dirtyBalances.values()) {
+    await balanceCache.refresh({ chainId, userAddress });
+    updated.push(`balance:${userAddress}`);
+  }
+
+  try {
+    await ProcessedReceipt.create({ chainId, txHash: hash, updated });
+  } catch (error: any) {
+    // A concurrent request for the same hash stored it first
+    if (!isDuplicateKey(error)) throw error;
+  }
+  return { status: 'refreshed', updated };
+}
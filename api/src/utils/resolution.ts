@@ -0,0 +1,286 @@
+import { ethers } from 'ethers';
+import { Market, MarketDoc, LeaderboardEntry, LeaderboardSnapshot } from '../db';
+import { MARKET_ADMIN_ABI, OUTCOME_A, OUTCOME_B, getDateOnly, toProjectSlug } from './constants';
+import { hashSnapshotEntries, lockSnapshot, unlockSnapshot } from './leaderboard';
+import { refreshRoundsForMarkets } from './rounds';
+import { syncMarketToCache } from './sync';
+import { enqueueTransaction, findInFlightTransaction, getSigner, registerTransactionHandler } from './txManager';
+import { getProviderChainId } from './chains';
+import { getProjectKeys } from './projects';
+
+const marketInterface = new ethers.Interface(MARKET_ADMIN_ABI);
+
+export interface ResolutionSnapshot {
+  date: Date;
+  index: number;
+  ranks: Map<string, number>;
+  hash: string;
+  hashMatches: boolean; // False when the entries no longer match the hash stored when they were written
+}
+
+export interface ResolutionResult {
+  marketAddress: string;
+  market: string;
+  status: string;
+  outcome?: number;
+  snapshotDate?: string;
+  snapshotIndex?: number;
+  snapshotHash?: string;
+  ranks?: Record<string, number | null>;
+  txId?: string;
+  error?: string;
+}
+
+// Record the outcome and snapshot on the market once the resolve transaction is mined
+registerTransactionHandler('resolve', async (tx, receipt, provider) => {
+  const { marketAddress, outcome, snapshotDate, snapshotIndex, snapshotHash, enableCache } = tx.context as {
+    marketAddress: string;
+    outcome: number;
+    snapshotDate: string;
+    snapshotIndex: number;
+    snapshotHash?: string;
+    enableCache?: boolean;
+  };
+  if (tx.status !== 'mined') {
+    // The market isn't resolved against the snapshot after all
+    await unlockSnapshot(new Date(snapshotDate), snapshotIndex, marketAddress);
+    return;
+  }
+  await Market.findOneAndUpdate(
+    { marketAddress, chainId: tx.chainId },
+    {
+      phase: 2,
+      status: 'resolved',
+      winner: outcome,
+      lastTxHash: tx.hash,
+      resolvedSnapshotDate: new Date(snapshotDate),
+      resolvedSnapshotIndex: snapshotIndex,
+      resolvedSnapshotHash: snapshotHash,
+      resolvedAt: new Date(),
+    }
+  );
+  await refreshRoundsForMarkets(tx.chainId, [marketAddress]);
+  if (enableCache) {
+    await syncMarketToCache(marketAddress, provider);
+  }
+});
+
+export function describeMarket(market: Pick<MarketDoc, 'type' | 'projectName' | 'projectA' | 'projectB'>) {
+  return market.type === 'top10' ? `${market.projectName}` : `${market.projectA} vs ${market.projectB}`;
+}
+
+// The authoritative snapshot for a resolve time is the highest index of the resolve day written at or
+// before it. Snapshots for other dates (backfills, late posts) never decide an outcome.
+export async function findResolutionSnapshot(resolveTime: number): Promise<ResolutionSnapshot | null> {
+  const resolveDate = new Date(resolveTime * 1000);
+  const meta = await LeaderboardSnapshot.findOne({ date: getDateOnly(resolveDate), createdAt: { $lte: resolveDate } })
+    .sort({ index: -1 })
+    .lean();
+  if (!meta) return null;
+
+  const { date, index } = meta;
+  const entries = await LeaderboardEntry.find({ date, index }).select('name rank score').lean();
+  const hash = hashSnapshotEntries(entries);
+  const keyOf = await getProjectKeys(entries.map(e => e.name));
+  const ranks = new Map<string, number>();
+  for (const entry of [...entries].sort((a, b) => a.rank - b.rank)) {
+    const key = keyOf(entry.name);
+    if (!ranks.has(key)) ranks.set(key, entry.rank);
+  }
+  return {
+    date,
+    index,
+    ranks,
+    hash,
+    hashMatches: meta.hash === hash,
+  };
+}
+
+// Thrown when the snapshot can't decide a market (e.g. a project is missing after a rename or an
+// ingestion gap). Resolving anyway would be irreversible, so an operator has to look at it.
+function outcomeError(message: string) {
+  return Object.assign(new Error(message), { code: 'OUTCOME_UNDECIDABLE' });
+}
+
+export function isOutcomeUndecidable(error: any) {
+  return error?.code === 'OUTCOME_UNDECIDABLE';
+}
+
+// top10: A if projectName ranks <= 10, otherwise B
+// h2h: A if projectA ranks higher than projectB, otherwise B
+// Every project must be in the snapshot. `ranks` is keyed by keyOf(name).
+export function computeOutcome(
+  market: Pick<MarketDoc, 'type' | 'projectName' | 'projectA' | 'projectB'>,
+  ranks: Map<string, number>,
+  keyOf: (name: string) => string = toProjectSlug
+): { outcome: number; ranks: Record<string, number | null> } {
+  if (market.type === 'top10') {
+    if (!market.projectName) throw new Error('top10 market has no projectName');
+    const rank = ranks.get(keyOf(market.projectName));
+    if (rank === undefined) {
+      throw outcomeError(`${market.projectName} is not in the snapshot`);
+    }
+    return {
+      outcome: rank <= 10 ? OUTCOME_A : OUTCOME_B,
+      ranks: { [market.projectName]: rank },
+    };
+  }
+
+  if (!market.projectA || !market.projectB) throw new Error('h2h market is missing projectA/projectB');
+  const rankA = ranks.get(keyOf(market.projectA));
+  const rankB = ranks.get(keyOf(market.projectB));
+  const missing = [rankA === undefined && market.projectA, rankB === undefined && market.projectB].filter(Boolean);
+  if (missing.length > 0) {
+    throw outcomeError(`${missing.join(' and ')} ${missing.length > 1 ? 'are' : 'is'} not in the snapshot`);
+  }
+  return {
+    outcome: rankA! < rankB! ? OUTCOME_A : OUTCOME_B,
+    ranks: { [market.projectA]: rankA!, [market.projectB]: rankB! },
+  };
+}
+
+// Resolve a single market whose resolveTime has passed. With dryRun the outcome is computed
+// and returned but nothing is sent or saved; otherwise the resolve transaction is queued.
+export async function resolveMarket(
+  market: MarketDoc,
+  provider: ethers.JsonRpcProvider,
+  options: { currentTime: number; dryRun: boolean; enableCache?: boolean }
+): Promise<ResolutionResult> {
+  const { currentTime, dryRun, enableCache } = options;
+  const result: ResolutionResult = {
+    marketAddress: market.marketAddress,
+    market: describeMarket(market),
+    status: 'pending',
+  };
+
+  if (currentTime < market.resolveTime) {
+    result.status = 'not-ready';
+    return result;
+  }
+
+  const contract = new ethers.Contract(market.marketAddress, MARKET_ADMIN_ABI, provider);
+  const phase = Number(await contract.phase());
+  if (phase >= 2) {
+    result.status = 'already-resolved';
+    return result;
+  }
+  if (phase !== 1 && !dryRun) {
+    result.status = 'not-locked';
+    return result;
+  }
+
+  const snapshot = await findResolutionSnapshot(market.resolveTime);
+  if (!snapshot) {
+    result.status = 'no-snapshot';
+    return result;
+  }
+
+  const marketNames = [market.projectName, market.projectA, market.projectB].filter((n): n is string => !!n);
+  const { outcome, ranks } = computeOutcome(market, snapshot.ranks, await getProjectKeys(marketNames));
+  result.outcome = outcome;
+  result.ranks = ranks;
+  result.snapshotDate = snapshot.date.toISOString().split('T')[0];
+  result.snapshotIndex = snapshot.index;
+  result.snapshotHash = snapshot.hash;
+
+  if (!snapshot.hashMatches) {
+    result.status = 'snapshot-hash-mismatch';
+    return result;
+  }
+
+  if (dryRun) {
+    result.status = 'dry-run';
+    return result;
+  }
+
+  // Don't queue a second resolve while one is in flight
+  const inFlight = await findInFlightTransaction('resolve', market.marketAddress, market.chainId);
+  if (inFlight) {
+    result.status = 'resolve-pending';
+    result.txId = String(inFlight._id);
+    return result;
+  }
+
+  // The outcome is now tied to this snapshot - it can no longer be changed. Locked before the
+  // transaction is queued so the entries can't change in between, and released if queueing fails.
+  await lockSnapshot(snapshot.date, snapshot.index, market.marketAddress);
+
+  let tx;
+  try {
+    tx = await enqueueTransaction(provider, {
+      signer: 'admin',
+      kind: 'resolve',
+      to: market.marketAddress,
+      data: marketInterface.encodeFunctionData('resolve', [outcome]),
+      context: {
+        marketAddress: market.marketAddress,
+        outcome,
+        snapshotDate: result.snapshotDate,
+        snapshotIndex: snapshot.index,
+        snapshotHash: snapshot.hash,
+        enableCache,
+      },
+    });
+  } catch (error) {
+    await unlockSnapshot(snapshot.date, snapshot.index, market.marketAddress);
+    throw error;
+  }
+
+  result.status = 'resolve-submitted';
+  result.txId = tx.id;
+  return result;
+}
+
+export async function resolveDueMarkets(
+  provider: ethers.JsonRpcProvider,
+  options: { dryRun: boolean; marketAddresses?: string[]; enableCache?: boolean }
+) {
+  const { dryRun, marketAddresses, enableCache } = options;
+
+  if (!dryRun) {
+    // Fail early if the admin wallet isn't configured
+    getSigner('admin', provider);
+  }
+
+  const block = await provider.getBlock('latest');
+  const currentTime = block?.timestamp ?? Math.floor(Date.now() / 1000);
+
+  const chainId = getProviderChainId(provider);
+  const filter = marketAddresses?.length
+    ? { chainId, marketAddress: { $in: marketAddresses } }
+    : { chainId, phase: { $lt: 2 }, resolveTime: { $lte: currentTime } };
+  const markets = await Market.find(filter);
+
+  console.log(`⚖️  ${dryRun ? 'Dry-run resolving' : 'Resolving'} ${markets.length} markets on chain ${chainId} (current time: ${currentTime})`);
+
+  const results: ResolutionResult[] = [];
+  for (const market of markets) {
+    try {
+      const result = await resolveMarket(market, provider, { currentTime, dryRun, enableCache });
+      results.push(result);
+      console.log(`  ${result.status === 'resolve-submitted' ? '✅' : '⏭️ '} ${result.market}: ${result.status}${result.outcome ? ` (winner ${result.outcome})` : ''}`);
+    } catch (error: any) {
+      console.error(`  ❌ Error resolving ${describeMarket(market)}:`, error.message || error);
+      results.push({
+        marketAddress: market.marketAddress,
+        market: describeMarket(market),
+        status: 'error',
+        error: error.message || 'error',
+      });
+    }
+  }
+
+  return {
+    chainId,
+    dryRun,
+    currentTime,
+    summary: {
+      total: markets.length,
+      submitted: results.filter(r => r.status === 'resolve-submitted').length,
+      dryRun: results.filter(r => r.status === 'dry-run').length,
+      skipped: results.filter(r => !['resolve-submitted', 'dry-run', 'error'].includes(r.status)).length,
+      errors: results.filter(r => r.status === 'error').length,
+    },
+    results,
+  };
+}
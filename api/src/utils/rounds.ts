@@ -0,0 +1,191 @@
+import { Market, Round, RoundAttrs } from '../db';
+import { getDateOnly } from './constants';
+import { getDefaultChainId } from './chains';
+
+export function formatRoundId(deploymentDate: Date, deploymentIndex: number) {
+  return `${deploymentDate.toISOString().split('T')[0]}-${deploymentIndex}`;
+}
+
+// Start a new round on a chain as the day's next deployment. Indexes are shared by all chains so
+// round ids stay unique. Concurrent calls can pick the same index; the unique roundId rejects all
+// but one and the others retry with the next index.
+export async function createRound(chainId: number, date = new Date()) {
+  const deploymentDate = getDateOnly(date);
+  for (let attempt = 0; ; attempt++) {
+    const latest = await Round.findOne({ deploymentDate }).sort({ deploymentIndex: -1 }).select('deploymentIndex').lean();
+    const deploymentIndex = latest ? latest.deploymentIndex + 1 : 0;
+    try {
+      const round = await Round.create({
+        roundId: formatRoundId(deploymentDate, deploymentIndex),
+        chainId,
+        deploymentDate,
+        deploymentIndex,
+        status: 'open',
+      });
+      console.log(`🆕 Started round ${round.roundId} on chain ${chainId}`);
+      return round;
+    } catch (error: any) {
+      if (error?.code !== 11000 || attempt >= 4) throw error;
+    }
+  }
+}
+
+// A chain's latest round that hasn't been archived and has markets. Rounds are created before their
+// markets are deployed, so one whose deployments all failed (or are still pending) is skipped.
+export async function getCurrentRound(chainId: number) {
+  const rounds = Round.find({ chainId, status: { $ne: 'archived' } })
+    .sort({ deploymentDate: -1, deploymentIndex: -1 })
+    .cursor();
+  for await (const round of rounds) {
+    if (await Market.exists({ roundId: round.roundId })) {
+      await rounds.close();
+      return round;
+    }
+  }
+  return null;
+}
+
+// Markets of a chain's current round ("current markets")
+export async function getCurrentRoundMarkets(chainId: number) {
+  const round = await getCurrentRound(chainId);
+  if (!round) return [];
+  return Market.find({ roundId: round.roundId }).sort({ lockTime: 1 });
+}
+
+// Round ids whose markets are no longer synced or listed as current
+export async function getArchivedRoundIds(): Promise<string[]> {
+  return Round.distinct('roundId', { status: 'archived' });
+}
+
+// Archive every round of a chain that isn't archived yet. Their markets stay queryable through /api/rounds.
+export async function archiveRounds(chainId: number) {
+  const result = await Round.updateMany(
+    { chainId, status: { $ne: 'archived' } },
+    { status: 'archived', archivedAt: new Date() }
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`🗄️  Archived ${result.modifiedCount} rounds on chain ${chainId}`);
+  }
+  return result.modifiedCount;
+}
+
+// Recompute windows, status and resolution snapshot of rounds from their markets
+export async function refreshRounds(roundIds: string[]) {
+  for (const roundId of new Set(roundIds)) {
+    const round = await Round.findOne({ roundId });
+    if (!round) continue;
+
+    const markets = await Market.find({ roundId })
+      .select('phase lockTime resolveTime resolvedSnapshotDate resolvedSnapshotIndex resolvedSnapshotHash resolvedAt')
+      .lean();
+    if (markets.length === 0) continue;
+
+    round.lockStart = Math.min(...markets.map(m => m.lockTime));
+    round.lockEnd = Math.max(...markets.map(m => m.lockTime));
+    round.resolveStart = Math.min(...markets.map(m => m.resolveTime));
+    round.resolveEnd = Math.max(...markets.map(m => m.resolveTime));
+
+    // Archived rounds keep their status
+    if (round.status !== 'archived') {
+      const phases = markets.map(m => m.phase ?? 0);
+      round.status = phases.every(p => p >= 2) ? 'resolved' : phases.every(p => p >= 1) ? 'locked' : 'open';
+    }
+
+    const lastResolved = markets
+      .filter(m => m.resolvedSnapshotDate)
+      .sort((a, b) => (b.resolvedAt?.getTime() ?? 0) - (a.resolvedAt?.getTime() ?? 0))[0];
+    if (lastResolved) {
+      round.snapshotDate = lastResolved.resolvedSnapshotDate;
+      round.snapshotIndex = lastResolved.resolvedSnapshotIndex;
+      round.snapshotHash = lastResolved.resolvedSnapshotHash;
+    }
+
+    if (round.isModified()) {
+      await round.save();
+    }
+  }
+}
+
+export async function refreshRoundsForMarkets(chainId: number, marketAddresses: string[]) {
+  const roundIds: string[] = await Market.distinct('roundId', { chainId, marketAddress: { $in: marketAddresses } });
+  await refreshRounds(roundIds.filter(Boolean));
+}
+
+// Create rounds for markets imported before rounds existed, grouped by chain and deploymentDate/deploymentIndex
+export async function ensureRounds() {
+  await ensureRoundChains();
+
+  const groups = await Market.aggregate<{ _id: { chainId: number; date?: Date; index?: number } }>([
+    { $match: { roundId: { $exists: false } } },
+    { $group: { _id: { chainId: '$chainId', date: '$deploymentDate', index: '$deploymentIndex' } } },
+  ]);
+  if (groups.length === 0) return;
+
+  for (const { _id } of groups) {
+    // Markets without deployment tracking share their chain's epoch round
+    const deploymentDate = getDateOnly(_id.date ?? new Date(0));
+    const deploymentIndex = _id.index ?? 0;
+    const roundId = formatRoundId(deploymentDate, deploymentIndex);
+    await Round.updateOne(
+      { roundId },
+      { $setOnInsert: { roundId, chainId: _id.chainId, deploymentDate, deploymentIndex, status: 'open' } },
+      { upsert: true }
+    );
+    // Another chain's round already has the id; the deployment takes the day's next index instead
+    const round = await Round.exists({ roundId, chainId: _id.chainId })
+      ? { roundId, deploymentDate, deploymentIndex }
+      : await createRound(_id.chainId, deploymentDate);
+    await Market.updateMany(
+      { chainId: _id.chainId, roundId: { $exists: false }, deploymentDate: _id.date ?? null, deploymentIndex: _id.index ?? null },
+      { roundId: round.roundId, deploymentDate: round.deploymentDate, deploymentIndex: round.deploymentIndex }
+    );
+    await refreshRounds([round.roundId]);
+  }
+
+  console.log(`🗂️  Created rounds for ${groups.length} existing deployments`);
+}
+
+// Rounds created before rounds had a chain take their markets' chain. The markets of any other
+// chain in the same round move to a new round of their own.
+async function ensureRoundChains() {
+  const rounds = await Round.find({ chainId: { $exists: false } }).lean();
+  if (rounds.length === 0) return;
+
+  for (const round of rounds) {
+    const chainIds: number[] = await Market.distinct('chainId', { roundId: round.roundId });
+    const [chainId = getDefaultChainId(), ...otherChainIds] = chainIds.sort((a, b) => a - b);
+    await Round.updateOne({ _id: round._id }, { chainId });
+
+    for (const otherChainId of otherChainIds) {
+      const split = await createRound(otherChainId, round.deploymentDate);
+      if (round.status === 'archived') {
+        await Round.updateOne({ _id: split._id }, { status: 'archived', archivedAt: round.archivedAt ?? new Date() });
+      }
+      await Market.updateMany(
+        { roundId: round.roundId, chainId: otherChainId },
+        { roundId: split.roundId, deploymentDate: split.deploymentDate, deploymentIndex: split.deploymentIndex }
+      );
+      await refreshRounds([round.roundId, split.roundId]);
+    }
+  }
+
+  console.log(`⛓️  Assigned chains to ${rounds.length} existing rounds`);
+}
+
+export function formatRound(round: RoundAttrs, marketCount?: number) {
+  return {
+    id: round.roundId,
+    chainId: round.chainId,
+    status: round.status,
+    deploymentDate: round.deploymentDate.toISOString().split('T')[0],
+    deploymentIndex: round.deploymentIndex,
+    lockWindow: round.lockStart !== undefined ? { start: round.lockStart, end: round.lockEnd } : null,
+    resolveWindow: round.resolveStart !== undefined ? { start: round.resolveStart, end: round.resolveEnd } : null,
+    snapshot: round.snapshotDate
+      ? { date: round.snapshotDate.toISOString().split('T')[0], index: round.snapshotIndex, hash: round.snapshotHash }
+      : null,
+    marketCount,
+    archivedAt: round.archivedAt,
+    createdAt: round.createdAt,
+  };
+}
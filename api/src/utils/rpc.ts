@@ -0,0 +1,212 @@
+import { ethers } from 'ethers';
+import { rpcRequestDuration, rpcRequests } from './metrics';
+
+export interface RpcEndpointConfig {
+  url: string;
+  priority?: number; // Lower is preferred; defaults to the position in the list
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Outcomes kept for the rolling latency and error rate
+const STATS_WINDOW = 100;
+
+function getRpcConfig() {
+  return {
+    timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || '10000', 10),
+    maxRetries: parseInt(process.env.RPC_MAX_RETRIES || '3', 10),
+    retryBaseMs: parseInt(process.env.RPC_RETRY_BASE_MS || '250', 10),
+    failureThreshold: parseInt(process.env.RPC_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    circuitResetMs: parseInt(process.env.RPC_CIRCUIT_RESET_MS || '30000', 10),
+  };
+}
+
+// Thrown when no endpoint of a chain could serve a request
+export function isRpcUnavailable(error: any) {
+  return error?.code === 'RPC_UNAVAILABLE';
+}
+
+// JSON-RPC errors that mean "try another node" rather than "the call failed"
+function isRateLimited(result: ethers.JsonRpcResult | ethers.JsonRpcError) {
+  if (!('error' in result)) return false;
+  const { code, message } = result.error;
+  return code === -32005 || code === 429 || /rate limit|too many requests/i.test(String(message ?? ''));
+}
+
+// A failure after one of these left may still have reached the node, so they are never sent twice.
+// Rate-limit responses are explicit rejections and can still fail over.
+const NON_IDEMPOTENT_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+function isIdempotent(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+  return (Array.isArray(payload) ? payload : [payload]).every(p => !NON_IDEMPOTENT_METHODS.has(p.method));
+}
+
+// Host only: endpoint URLs often embed API keys
+function redactUrl(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+class RpcEndpoint {
+  readonly connection: ethers.JsonRpcProvider;
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  openedAt = 0;
+  requests = 0;
+  failures = 0;
+  lastError?: string;
+  lastErrorAt?: Date;
+  private recent: Array<{ ok: boolean; ms: number }> = [];
+
+  constructor(readonly url: string, readonly priority: number, chainId: number, timeoutMs: number) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = timeoutMs;
+    // Retries and failover happen in ResilientProvider, not inside a single fetch
+    request.setThrottleParams({ maxAttempts: 1 });
+    this.connection = new ethers.JsonRpcProvider(request, chainId, { staticNetwork: true });
+  }
+
+  // Closed circuits take traffic; an open one lets a single trial request through after the reset time.
+  // Half-open means that trial is in flight: everything else skips the endpoint until it is recorded.
+  isAvailable(now: number, circuitResetMs: number) {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open' && now - this.openedAt >= circuitResetMs) {
+      this.state = 'half-open';
+      return true;
+    }
+    return false;
+  }
+
+  // Only the trial decides a half-open circuit; requests that started before it opened just count
+  record(ok: boolean, ms: number, failureThreshold: number, trial: boolean, error?: any) {
+    this.requests++;
+    this.recent.push({ ok, ms });
+    if (this.recent.length > STATS_WINDOW) this.recent.shift();
+    if (!ok) {
+      this.failures++;
+      this.lastError = error?.shortMessage || error?.message || String(error);
+      this.lastErrorAt = new Date();
+    }
+    if (this.state !== 'closed' && !trial) return;
+
+    if (ok) {
+      if (this.state !== 'closed') console.log(`🟢 RPC ${redactUrl(this.url)} recovered`);
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= failureThreshold)) {
+      console.warn(`🔴 RPC ${redactUrl(this.url)} circuit opened after ${this.consecutiveFailures} failures: ${this.lastError}`);
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getStats() {
+    const recentFailures = this.recent.filter(r => !r.ok).length;
+    const latencies = this.recent.filter(r => r.ok).map(r => r.ms);
+    return {
+      host: redactUrl(this.url),
+      priority: this.priority,
+      state: this.state,
+      requests: this.requests,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.recent.length > 0 ? recentFailures / this.recent.length : 0,
+      avgLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+      lastError: this.lastError ?? null,
+      lastErrorAt: this.lastErrorAt ?? null,
+    };
+  }
+}
+
+// JSON-RPC provider backed by several endpoints. Each request goes to the preferred healthy endpoint,
+// fails over to the next one on transport errors or rate limits, and backs off once every endpoint
+// has been tried. Endpoints that keep failing are skipped until their circuit resets.
+export class ResilientProvider extends ethers.JsonRpcProvider {
+  readonly chainId: number;
+  private endpoints: RpcEndpoint[];
+
+  constructor(endpoints: RpcEndpointConfig[], chainId: number) {
+    if (endpoints.length === 0) throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    super(endpoints[0].url, chainId, { staticNetwork: true });
+    const { timeoutMs } = getRpcConfig();
+    this.chainId = chainId;
+    this.endpoints = endpoints
+      .map((e, i) => new RpcEndpoint(e.url, e.priority ?? i, chainId, timeoutMs))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const { maxRetries, retryBaseMs, failureThreshold, circuitResetMs } = getRpcConfig();
+    const idempotent = isIdempotent(payload);
+    const tried = new Set<RpcEndpoint>();
+    let lastError: any;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      let endpoint = this.endpoints.find(e => !tried.has(e) && e.isAvailable(Date.now(), circuitResetMs));
+      if (!endpoint && tried.size > 0) {
+        // Every healthy endpoint failed this request - wait, then go round again
+        await new Promise(resolve => setTimeout(resolve, retryBaseMs * 2 ** (attempt - 1)));
+        tried.clear();
+        endpoint = this.endpoints.find(e => e.isAvailable(Date.now(), circuitResetMs));
+      }
+      if (!endpoint) break;
+
+      tried.add(endpoint);
+      const trial = endpoint.state === 'half-open';
+      const started = Date.now();
+      let rateLimited = false;
+      try {
+        const results = await endpoint.connection._send(payload);
+        if (results.some(isRateLimited)) {
+          rateLimited = true;
+          throw new Error('Rate limited');
+        }
+        endpoint.record(true, Date.now() - started, failureThreshold, trial);
+        this.recordMetrics(endpoint, payload, 'ok', Date.now() - started);
+        return results;
+      } catch (error: any) {
+        endpoint.record(false, Date.now() - started, failureThreshold, trial, error);
+        this.recordMetrics(endpoint, payload, 'error', Date.now() - started);
+        lastError = error;
+        // The node may have accepted it; the caller decides whether to send again
+        if (!idempotent && !rateLimited) break;
+      }
+    }
+
+    const reason = lastError ? lastError.shortMessage || lastError.message : 'all circuits open';
+    throw Object.assign(new Error(`RPC unavailable for chain ${this.chainId}: ${reason}`), {
+      code: 'RPC_UNAVAILABLE',
+      shortMessage: `RPC unavailable for chain ${this.chainId}`,
+    });
+  }
+
+  // One sample per method, batched requests share the batch latency
+  private recordMetrics(
+    endpoint: RpcEndpoint,
+    payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[],
+    result: 'ok' | 'error',
+    ms: number
+  ) {
+    const host = redactUrl(endpoint.url);
+    for (const { method } of Array.isArray(payload) ? payload : [payload]) {
+      rpcRequests.inc({ chain_id: this.chainId, endpoint: host, method, result });
+      rpcRequestDuration.observe({ chain_id: this.chainId, endpoint: host, method }, ms / 1000);
+    }
+  }
+
+  getEndpointStats() {
+    return this.endpoints.map(e => e.getStats());
+  }
+
+  destroy() {
+    this.endpoints.forEach(e => e.connection.destroy());
+    super.destroy();
+  }
+}
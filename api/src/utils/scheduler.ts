@@ -0,0 +1,238 @@
+import { ethers } from 'ethers';
+import { Market, PendingTransaction, ScheduledJob, ScheduledJobDoc } from '../db';
+import { closeMarket } from './lifecycle';
+import { isOutcomeUndecidable, resolveMarket } from './resolution';
+import { getSigner } from './txManager';
+import { getProviderChainId } from './chains';
+
+function getSchedulerConfig() {
+  return {
+    intervalMs: parseInt(process.env.SCHEDULER_INTERVAL_MS || '15000', 10),
+    maxAttempts: parseInt(process.env.SCHEDULER_MAX_ATTEMPTS || '5', 10),
+    backoffMs: parseInt(process.env.SCHEDULER_BACKOFF_MS || '30000', 10),
+    autoResolve: process.env.SCHEDULER_AUTO_RESOLVE === 'true',
+  };
+}
+
+async function getChainTime(provider: ethers.JsonRpcProvider): Promise<number> {
+  const block = await provider.getBlock('latest');
+  return block?.timestamp ?? Math.floor(Date.now() / 1000);
+}
+
+// Create (or move) a close job at lockTime and, if enabled, a resolve job at resolveTime
+// for every market on the chain that still needs one
+export async function syncSchedule(chainId: number) {
+  const { autoResolve } = getSchedulerConfig();
+  const markets = await Market.find({ chainId, phase: { $lt: 2 } })
+    .select('marketAddress phase lockTime resolveTime')
+    .lean();
+
+  const ops: any[] = [];
+  for (const market of markets) {
+    const jobs: { action: 'close' | 'resolve'; runAt: number }[] = [];
+    if ((market.phase ?? 0) === 0) jobs.push({ action: 'close', runAt: market.lockTime });
+    if (autoResolve) jobs.push({ action: 'resolve', runAt: market.resolveTime });
+
+    for (const job of jobs) {
+      // Keep runAt in line with the market while the job hasn't run yet
+      ops.push({
+        updateOne: {
+          filter: { marketAddress: market.marketAddress, chainId, action: job.action, status: 'pending' },
+          update: { $set: { runAt: job.runAt } },
+        },
+      });
+      ops.push({
+        updateOne: {
+          filter: { marketAddress: market.marketAddress, chainId, action: job.action },
+          update: { $setOnInsert: { runAt: job.runAt, status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+          upsert: true,
+        },
+      });
+    }
+  }
+
+  if (ops.length > 0) {
+    await ScheduledJob.bulkWrite(ops, { ordered: true });
+  }
+}
+
+// Record a failed attempt: retry with exponential backoff, or give up after maxAttempts
+async function failAttempt(job: ScheduledJobDoc, error: any) {
+  const { maxAttempts, backoffMs } = getSchedulerConfig();
+  job.lastError = error.message || String(error);
+  job.txId = undefined;
+  if (isOutcomeUndecidable(error)) {
+    // Retrying against the same snapshot can't help - leave it to an operator
+    job.status = 'failed';
+    console.error(`  ❌ Scheduled ${job.action} for ${job.marketAddress} needs an operator:`, job.lastError);
+  } else if (job.attempts >= maxAttempts) {
+    job.status = 'failed';
+    console.error(`  ❌ Scheduled ${job.action} for ${job.marketAddress} failed after ${job.attempts} attempts:`, job.lastError);
+  } else {
+    // Exponential backoff: backoffMs, 2x, 4x, ...
+    job.status = 'pending';
+    job.nextAttemptAt = new Date(Date.now() + backoffMs * 2 ** (job.attempts - 1));
+    console.warn(`  ⚠️  Scheduled ${job.action} for ${job.marketAddress} failed (attempt ${job.attempts}), retrying at ${job.nextAttemptAt.toISOString()}`);
+  }
+  await job.save();
+}
+
+async function completeJob(job: ScheduledJobDoc, txHash?: string) {
+  job.status = 'done';
+  job.txId = undefined;
+  job.txHash = txHash;
+  job.lastError = undefined;
+  job.completedAt = new Date();
+  await job.save();
+  console.log(`  ✅ Scheduled ${job.action} for ${job.marketAddress}: ${job.result}`);
+}
+
+// Returns false when another tick or instance claimed the job first
+async function runJob(
+  pendingJob: ScheduledJobDoc,
+  provider: ethers.JsonRpcProvider,
+  currentTime: number,
+  enableCache: boolean
+) {
+  const job = await ScheduledJob.findOneAndUpdate(
+    { _id: pendingJob._id, status: 'pending' },
+    { $set: { status: 'running' }, $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!job) return false;
+
+  const market = await Market.findOne({ marketAddress: job.marketAddress, chainId: job.chainId });
+  if (!market) {
+    job.status = 'failed';
+    job.lastError = 'Market not found';
+    await job.save();
+    return true;
+  }
+
+  try {
+    let txId: string | undefined;
+    if (job.action === 'close') {
+      const result = await closeMarket(market, provider, { currentTime, enableCache });
+      if (result.status.startsWith('not-ready')) {
+        // On-chain lockTime is later than we thought - wait for it without using up an attempt
+        job.status = 'pending';
+        job.attempts -= 1;
+        job.runAt = result.lockTime ?? job.runAt;
+        await job.save();
+        return true;
+      }
+      job.result = result.status;
+      txId = result.txId;
+    } else {
+      const result = await resolveMarket(market, provider, { currentTime, dryRun: false, enableCache });
+      if (['not-locked', 'no-snapshot', 'snapshot-hash-mismatch'].includes(result.status)) {
+        throw new Error(`Cannot resolve yet: ${result.status}`);
+      }
+      job.result = result.status;
+      txId = result.txId;
+    }
+
+    if (!txId) {
+      await completeJob(job);
+      return true;
+    }
+
+    // Don't hold up the tick while the transaction is mined - later ticks pick up its outcome
+    job.status = 'submitted';
+    job.txId = txId;
+    await job.save();
+    console.log(`  📨 Scheduled ${job.action} for ${job.marketAddress}: ${job.result} (tx ${txId})`);
+  } catch (error: any) {
+    await failAttempt(job, error);
+  }
+  return true;
+}
+
+// Finish submitted jobs whose transaction was mined, and retry those whose transaction failed
+async function checkSubmittedJobs(chainId: number) {
+  const jobs = await ScheduledJob.find({ chainId, status: 'submitted' });
+  let finished = 0;
+  for (const job of jobs) {
+    const tx = job.txId ? await PendingTransaction.findById(job.txId).lean() : null;
+    if (tx && (tx.status === 'queued' || tx.status === 'sent')) continue;
+
+    if (tx?.status === 'mined') {
+      await completeJob(job, tx.hash);
+    } else {
+      await failAttempt(job, new Error(`Transaction ${job.txId} failed: ${tx?.error ?? 'not found'}`));
+    }
+    finished++;
+  }
+  return finished;
+}
+
+// Run every job whose runAt has passed according to the latest block timestamp
+export async function runScheduler(provider: ethers.JsonRpcProvider, enableCache: boolean) {
+  // Fail early if the admin wallet isn't configured
+  getSigner('admin', provider);
+
+  const chainId = getProviderChainId(provider);
+  await syncSchedule(chainId);
+  const finished = await checkSubmittedJobs(chainId);
+
+  const currentTime = await getChainTime(provider);
+  const dueJobs = await ScheduledJob.find({
+    chainId,
+    status: 'pending',
+    runAt: { $lte: currentTime },
+    nextAttemptAt: { $lte: new Date() },
+  }).sort({ action: 1, runAt: 1 }); // close before resolve
+
+  if (dueJobs.length === 0) return { currentTime, ran: 0, finished };
+
+  console.log(`⏰ Running ${dueJobs.length} scheduled jobs on chain ${chainId} (chain time: ${currentTime})`);
+  let ran = 0;
+  for (const job of dueJobs) {
+    if (await runJob(job, provider, currentTime, enableCache)) ran++;
+  }
+  return { currentTime, ran, finished };
+}
+
+export async function getSchedule(provider: ethers.JsonRpcProvider) {
+  const chainId = getProviderChainId(provider);
+  const [currentTime, upcoming, failed] = await Promise.all([
+    getChainTime(provider),
+    ScheduledJob.find({ chainId, status: { $in: ['pending', 'running', 'submitted'] } }).sort({ runAt: 1 }).lean(),
+    ScheduledJob.find({ chainId, status: 'failed' }).sort({ updatedAt: -1 }).lean(),
+  ]);
+
+  return {
+    chainId,
+    currentTime,
+    upcoming: upcoming.map(job => ({ ...job, dueIn: job.runAt - currentTime })),
+    failed,
+  };
+}
+
+export async function startScheduler(provider: ethers.JsonRpcProvider, enableCache: boolean) {
+  const { intervalMs } = getSchedulerConfig();
+  const chainId = getProviderChainId(provider);
+
+  // Jobs left running by a previous process never finished - pick them up again
+  const reset = await ScheduledJob.updateMany({ chainId, status: 'running' }, { $set: { status: 'pending' } });
+  if (reset.modifiedCount > 0) {
+    console.log(`♻️  Re-queued ${reset.modifiedCount} interrupted scheduled jobs on chain ${chainId}`);
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runScheduler(provider, enableCache);
+    } catch (error: any) {
+      console.error(`❌ Scheduler error on chain ${chainId}:`, error.message || error);
+    } finally {
+      running = false;
+    }
+  };
+
+  await tick();
+  setInterval(tick, intervalMs);
+  console.log(`⏰ Market scheduler for chain ${chainId} running every ${intervalMs}ms`);
+}
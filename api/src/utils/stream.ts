@@ -0,0 +1,86 @@
+import { EventEmitter } from 'events';
+
+// Channels clients can subscribe to on GET /api/stream
+const CHANNEL_PATTERN = /^(markets:all|leaderboard|market:0x[0-9a-f]{40}|user:0x[0-9a-f]{40})$/;
+
+export interface StreamEvent {
+  id: number;
+  type: string;
+  channels: string[];
+  data: unknown;
+  timestamp: number;
+}
+
+function getStreamConfig() {
+  return {
+    bufferSize: parseInt(process.env.STREAM_BUFFER_SIZE || '1000', 10),
+  };
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Recent events kept in memory so reconnecting clients can resume from Last-Event-ID
+const buffer: StreamEvent[] = [];
+
+// Ids start from the boot time so they keep increasing across restarts
+let lastId = Date.now() * 1000;
+
+export function normalizeChannel(channel: string) {
+  const [name, address] = channel.trim().split(':');
+  return address?.startsWith('0x') ? `${name}:${address.toLowerCase()}` : channel.trim();
+}
+
+export function isValidChannel(channel: string) {
+  return CHANNEL_PATTERN.test(channel);
+}
+
+export function publish(type: string, channels: string[], data: unknown) {
+  const event: StreamEvent = {
+    id: ++lastId,
+    type,
+    channels: channels.map(normalizeChannel),
+    data,
+    timestamp: Date.now(),
+  };
+
+  buffer.push(event);
+  const { bufferSize } = getStreamConfig();
+  if (buffer.length > bufferSize) {
+    buffer.splice(0, buffer.length - bufferSize);
+  }
+  emitter.emit('event', event);
+}
+
+export function publishMarketUpdate(marketAddress: string, data: Record<string, unknown>) {
+  publish('market', [`market:${marketAddress}`, 'markets:all'], { marketAddress, ...data });
+}
+
+export function publishUserUpdate(userAddress: string, type: 'investment' | 'balance', data: Record<string, unknown>) {
+  publish(`user:${type}`, [`user:${userAddress}`], { userAddress, ...data });
+}
+
+export function publishLeaderboardUpdate(data: Record<string, unknown>) {
+  publish('leaderboard', ['leaderboard'], data);
+}
+
+// Events after `lastEventId` on the given channels. `complete` is false when some of
+// them have already dropped out of the buffer and the client should refetch instead.
+export function getEventsSince(lastEventId: number, channels: string[]) {
+  const oldest = buffer[0];
+  const complete = lastEventId >= (oldest ? oldest.id - 1 : lastId);
+  const events = buffer.filter(e => e.id > lastEventId && e.channels.some(c => channels.includes(c)));
+  return { events, complete };
+}
+
+export function subscribe(channels: string[], listener: (event: StreamEvent) => void) {
+  const handler = (event: StreamEvent) => {
+    if (event.channels.some(c => channels.includes(c))) {
+      listener(event);
+    }
+  };
+  emitter.on('event', handler);
+  return () => {
+    emitter.off('event', handler);
+  };
+}
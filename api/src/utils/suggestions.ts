@@ -0,0 +1,236 @@
+import { LeaderboardEntry, Market } from '../db';
+import { getDateOnly } from './constants';
+import { getProjectKeys } from './projects';
+
+const TOP10_BOUNDARY = 10;
+const MIN_RANK_SIGMA = 1.5; // Rank uncertainty floor for projects with a flat history
+const CLOSE_H2H_MAX_GAP = 3;
+
+export interface ProjectStats {
+  name: string;
+  rank: number;
+  score: number;
+  volatility: number; // Std deviation of daily rank over the history window
+}
+
+export interface SuggestionContext {
+  projects: ProjectStats[]; // Candidates, excluding projects in live markets
+  random: () => number;
+}
+
+export interface Top10Suggestion {
+  type: 'top10';
+  projectName: string;
+  strategy: string;
+  rank: number;
+  probability: number; // Predicted probability of finishing in the top 10
+  balance: number; // 1 = coin flip, 0 = certain outcome
+  reason: string;
+}
+
+export interface H2hSuggestion {
+  type: 'h2h';
+  projectA: string;
+  projectB: string;
+  strategy: string;
+  rankA: number;
+  rankB: number;
+  probability: number; // Predicted probability of projectA finishing above projectB
+  balance: number;
+  reason: string;
+}
+
+export interface SuggestionStrategy {
+  name: string;
+  description: string;
+  top10?(ctx: SuggestionContext, count: number): Top10Suggestion[];
+  h2h?(ctx: SuggestionContext, count: number): H2hSuggestion[];
+}
+
+// Deterministic PRNG (mulberry32) seeded from any string
+export function createRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal CDF (Abramowitz-Stegun approximation)
+function normalCdf(x: number) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function sigma(project: ProjectStats) {
+  return Math.max(MIN_RANK_SIGMA, project.volatility);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Future rank modelled as normal around the current rank with the project's volatility
+export function predictTop10(project: ProjectStats) {
+  const probability = normalCdf((TOP10_BOUNDARY + 0.5 - project.rank) / sigma(project));
+  return { probability: round(probability), balance: round(1 - Math.abs(2 * probability - 1)) };
+}
+
+export function predictH2h(a: ProjectStats, b: ProjectStats) {
+  const probability = normalCdf((b.rank - a.rank) / Math.hypot(sigma(a), sigma(b)));
+  return { probability: round(probability), balance: round(1 - Math.abs(2 * probability - 1)) };
+}
+
+// Pick `count` items without replacement, each draw proportional to its weight
+function weightedSample<T>(items: T[], weight: (item: T) => number, count: number, random: () => number): T[] {
+  const pool = items.map(item => ({ item, weight: Math.max(0, weight(item)) }));
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, p) => sum + p.weight, 0);
+    if (total <= 0) break;
+    let target = random() * total;
+    const i = pool.findIndex(p => (target -= p.weight) < 0);
+    picked.push(pool.splice(i === -1 ? pool.length - 1 : i, 1)[0].item);
+  }
+  return picked;
+}
+
+// Draw pairs with no project used twice
+function samplePairs(
+  pairs: Array<[ProjectStats, ProjectStats]>,
+  weight: (pair: [ProjectStats, ProjectStats]) => number,
+  count: number,
+  random: () => number
+) {
+  const used = new Set<string>();
+  const picked: Array<[ProjectStats, ProjectStats]> = [];
+  let candidates = pairs;
+  while (picked.length < count && candidates.length > 0) {
+    const [pair] = weightedSample(candidates, weight, 1, random);
+    if (!pair) break;
+    picked.push(pair);
+    used.add(pair[0].name).add(pair[1].name);
+    candidates = candidates.filter(([a, b]) => !used.has(a.name) && !used.has(b.name));
+  }
+  return picked;
+}
+
+function allPairs(projects: ProjectStats[], maxGap = Infinity) {
+  const pairs: Array<[ProjectStats, ProjectStats]> = [];
+  const sorted = [...projects].sort((a, b) => a.rank - b.rank);
+  sorted.forEach((a, i) => {
+    for (const b of sorted.slice(i + 1)) {
+      if (b.rank - a.rank > maxGap) break;
+      pairs.push([a, b]);
+    }
+  });
+  return pairs;
+}
+
+function toTop10(project: ProjectStats, strategy: string, reason: string): Top10Suggestion {
+  return { type: 'top10', projectName: project.name, strategy, rank: project.rank, ...predictTop10(project), reason };
+}
+
+function toH2h([a, b]: [ProjectStats, ProjectStats], strategy: string, reason: string): H2hSuggestion {
+  // The better-ranked project is always projectA
+  return { type: 'h2h', projectA: a.name, projectB: b.name, strategy, rankA: a.rank, rankB: b.rank, ...predictH2h(a, b), reason };
+}
+
+export const SUGGESTION_STRATEGIES: Record<string, SuggestionStrategy> = {
+  boundary: {
+    name: 'boundary',
+    description: 'Top-10 markets on projects whose rank is close to 10',
+    top10: (ctx, count) => weightedSample(ctx.projects, p => predictTop10(p).balance ** 2, count, ctx.random)
+      .map(p => toTop10(p, 'boundary', `Rank ${p.rank}, ${Math.abs(p.rank - TOP10_BOUNDARY)} from the top-10 boundary`)),
+  },
+  'close-h2h': {
+    name: 'close-h2h',
+    description: `Head-to-head markets between projects at most ${CLOSE_H2H_MAX_GAP} ranks apart`,
+    h2h: (ctx, count) => samplePairs(allPairs(ctx.projects, CLOSE_H2H_MAX_GAP), ([a, b]) => predictH2h(a, b).balance, count, ctx.random)
+      .map(pair => toH2h(pair, 'close-h2h', `Ranks ${pair[0].rank} and ${pair[1].rank}`)),
+  },
+  volatility: {
+    name: 'volatility',
+    description: 'Projects whose rank moved the most in recent snapshots',
+    top10: (ctx, count) => weightedSample(ctx.projects, p => predictTop10(p).balance * (1 + p.volatility), count, ctx.random)
+      .map(p => toTop10(p, 'volatility', `Rank ${p.rank}, daily rank std dev ${round(p.volatility)}`)),
+    h2h: (ctx, count) => samplePairs(
+      allPairs(ctx.projects, CLOSE_H2H_MAX_GAP * 3),
+      ([a, b]) => predictH2h(a, b).balance * (1 + a.volatility + b.volatility),
+      count,
+      ctx.random
+    ).map(pair => toH2h(pair, 'volatility', `Rank std devs ${round(pair[0].volatility)} and ${round(pair[1].volatility)}`)),
+  },
+  random: {
+    name: 'random',
+    description: 'Uniformly random projects (previous behaviour)',
+    top10: (ctx, count) => weightedSample(ctx.projects, () => 1, count, ctx.random)
+      .map(p => toTop10(p, 'random', 'Random pick')),
+    h2h: (ctx, count) => samplePairs(allPairs(ctx.projects), () => 1, count, ctx.random)
+      .map(pair => toH2h(pair, 'random', 'Random pair')),
+  },
+};
+
+// Projects in trading or locked markets
+async function getLiveMarketProjects() {
+  const markets = await Market.find({ phase: { $lt: 2 } }).select('projectName projectA projectB').lean();
+  return new Set(markets.flatMap(m => [m.projectName, m.projectA, m.projectB]).filter((n): n is string => !!n));
+}
+
+// Std deviation of each project's rank across the latest snapshot of each of the last `days` days
+async function getRankVolatility(days: number) {
+  const since = getDateOnly(new Date());
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const latestPerDay = await LeaderboardEntry.aggregate([
+    { $match: { date: { $gte: since } } },
+    { $group: { _id: '$date', index: { $max: '$index' } } },
+  ]);
+  if (latestPerDay.length === 0) return new Map<string, number>();
+
+  const entries = await LeaderboardEntry.find({
+    $or: latestPerDay.map(d => ({ date: d._id, index: d.index })),
+  }).select('name rank').lean();
+
+  // By project slug, so days before a rename count towards the same project
+  const keyOf = await getProjectKeys(entries.map(e => e.name));
+  const ranks = new Map<string, number[]>();
+  entries.forEach(e => ranks.set(keyOf(e.name), [...(ranks.get(keyOf(e.name)) ?? []), e.rank]));
+
+  const volatility = new Map<string, number>();
+  ranks.forEach((values, key) => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    volatility.set(key, Math.sqrt(values.reduce((sum, r) => sum + (r - mean) ** 2, 0) / values.length));
+  });
+  return volatility;
+}
+
+export async function buildSuggestions(options: {
+  entries: Array<{ name: string; rank: number; score: number }>;
+  top10Strategy: SuggestionStrategy;
+  h2hStrategy: SuggestionStrategy;
+  top10Count: number;
+  h2hCount: number;
+  seed: string;
+  historyDays: number;
+}) {
+  const [excluded, volatility] = await Promise.all([getLiveMarketProjects(), getRankVolatility(options.historyDays)]);
+
+  // Markets keep the name they were created with, so match live markets by project slug
+  const keyOf = await getProjectKeys([...excluded, ...options.entries.map(e => e.name)]);
+  const excludedKeys = new Set([...excluded].map(keyOf));
+  const projects = options.entries
+    .filter(e => !excludedKeys.has(keyOf(e.name)))
+    .map(e => ({ name: e.name, rank: e.rank, score: e.score, volatility: volatility.get(keyOf(e.name)) ?? 0 }));
+
+  // Separate generators so changing one count doesn't change the other list
+  const top10 = options.top10Strategy.top10?.({ projects, random: createRandom(`${options.seed}:top10`) }, options.top10Count) ?? [];
+  const h2h = options.h2hStrategy.h2h?.({ projects, random: createRandom(`${options.seed}:h2h`) }, options.h2hCount) ?? [];
+
+  return { top10, h2h, excluded: [...excluded].sort() };
+}
@@ -1,51 +1,303 @@
 import { ethers } from 'ethers';
 import { Market, UserInvestment, UserBalance, Contract } from '../db';
-import { MARKET_ADMIN_ABI, STAKE_TOKEN_ABI, phaseToStatus } from './constants';
+import { MARKET_ADMIN_ABI, STAKE_TOKEN_ABI, phaseToStatus, toPoolSortKey } from './constants';
+import { batchCalls } from './multicall';
+import { publishMarketUpdate, publishUserUpdate } from './stream';
+import { recordPoolSnapshots } from './history';
+import { getArchivedRoundIds, refreshRoundsForMarkets } from './rounds';
+import { getProvider, getProviderChainId } from './chains';
+import { createCache } from './cache';
+import { syncDuration, syncMarketFailures } from './metrics';
 
-export async function syncMarketToCache(
+export interface MarketChainState {
+  phase: number;
+  poolA: bigint;
+  poolB: bigint;
+  winner: number;
+  lockTime: number;
+  resolveTime: number;
+}
+
+const marketInterface = new ethers.Interface(MARKET_ADMIN_ABI);
+const MARKET_STATE_METHODS = ['phase', 'pools', 'winner', 'lockTime', 'resolveTime'];
+
+// Read on-chain state for many markets in one batch (a single multicall when configured).
+// Entries are null when the address has no code or isn't a market contract.
+export async function readMarketStates(
+  marketAddresses: string[],
+  provider: ethers.JsonRpcProvider,
+  blockTag?: number
+): Promise<(MarketChainState | null)[]> {
+  const calls = marketAddresses.flatMap(target =>
+    MARKET_STATE_METHODS.map(method => ({ target, iface: marketInterface, method }))
+  );
+  const results = await batchCalls(provider, calls, blockTag);
+
+  return marketAddresses.map((_, i) => {
+    const values = results.slice(i * MARKET_STATE_METHODS.length, (i + 1) * MARKET_STATE_METHODS.length);
+    if (values.some(r => !r.success || !r.value)) return null;
+    const [phase, pools, winner, lockTime, resolveTime] = values.map(r => r.value!);
+    return {
+      phase: Number(phase[0]),
+      poolA: pools[0] as bigint,
+      poolB: pools[1] as bigint,
+      winner: Number(winner[0]),
+      lockTime: Number(lockTime[0]),
+      resolveTime: Number(resolveTime[0]),
+    };
+  });
+}
+
+function marketStateUpdate(state: MarketChainState) {
+  return {
+    phase: state.phase,
+    status: phaseToStatus(state.phase),
+    winner: state.winner > 0 ? state.winner : undefined,
+    poolA: state.poolA.toString(),
+    poolB: state.poolB.toString(),
+    totalPoolSort: toPoolSortKey(state.poolA + state.poolB),
+    lockTime: state.lockTime,
+    resolveTime: state.resolveTime,
+    lastSyncedAt: new Date(),
+  };
+}
+
+type MarketStateUpdate = ReturnType<typeof marketStateUpdate>;
+
+// True when phase, pools or winner changed (or the market was never synced)
+function hasMarketChanged(
+  previous: { phase?: number; poolA?: string; poolB?: string; winner?: number; lastSyncedAt?: Date },
+  update: MarketStateUpdate
+) {
+  return !previous.lastSyncedAt
+    || previous.phase !== update.phase
+    || previous.poolA !== update.poolA
+    || previous.poolB !== update.poolB
+    || previous.winner !== update.winner;
+}
+
+// Notify stream subscribers and record the pools in the market's history
+async function onMarketsChanged(
+  chainId: number,
+  changes: Array<{ marketAddress: string; previousPhase?: number; update: MarketStateUpdate }>
+) {
+  for (const { marketAddress, previousPhase, update } of changes) {
+    publishMarketUpdate(marketAddress, {
+      phase: update.phase,
+      status: update.status,
+      pools: { A: update.poolA, B: update.poolB },
+      winner: update.winner,
+      previousPhase,
+    });
+  }
+  await recordPoolSnapshots(changes.map(({ marketAddress, update }) => ({
+    chainId,
+    marketAddress,
+    poolA: update.poolA,
+    poolB: update.poolB,
+    phase: update.phase,
+  })));
+
+  // Round status follows its markets' phases
+  const phaseChanges = changes.filter(c => c.previousPhase !== c.update.phase);
+  if (phaseChanges.length > 0) {
+    await refreshRoundsForMarkets(chainId, phaseChanges.map(c => c.marketAddress));
+  }
+}
+
+// Only overwrite cached copies that reflect the same or an older block
+function notNewerThan(blockNumber: number) {
+  return { $or: [{ syncedBlock: null }, { syncedBlock: { $lte: blockNumber } }] };
+}
+
+function isDuplicateKey(error: any) {
+  return error?.code === 11000;
+}
+
+// Store a market's state as of blockNumber. Returns false when a newer state is already stored.
+export async function cacheMarketState(marketAddress: string, state: MarketChainState, chainId: number, blockNumber: number) {
+  const update = { ...marketStateUpdate(state), syncedBlock: blockNumber };
+  const previous = await Market.findOneAndUpdate(
+    { marketAddress, chainId, ...notNewerThan(blockNumber) },
+    update,
+    { upsert: false }
+  ).lean();
+  if (!previous) {
+    // Markets that aren't stored (yet) are only kept in memory
+    if (await Market.exists({ marketAddress, chainId })) return false;
+    marketCache.set({ chainId, marketAddress }, state);
+    return true;
+  }
+  marketCache.set({ chainId, marketAddress }, state);
+  if (hasMarketChanged(previous, update)) {
+    await Market.updateOne({ _id: previous._id }, { $max: { lastActivityAt: new Date() } });
+    await onMarketsChanged(chainId, [{ marketAddress, previousPhase: previous.phase, update }]);
+  }
+  return true;
+}
+
+export interface InvestmentChainState {
+  aClaims: bigint;
+  bClaims: bigint;
+  redeemed: boolean;
+}
+
+export async function cacheUserInvestment(
   marketAddress: string,
-  provider: ethers.JsonRpcProvider
+  userAddress: string,
+  chainId: number,
+  state: InvestmentChainState,
+  blockNumber: number
 ) {
+  const update = {
+    aClaims: state.aClaims.toString(),
+    bClaims: state.bClaims.toString(),
+    redeemed: state.redeemed,
+  };
+  let previous;
   try {
-    // Check if contract has code first
-    const code = await provider.getCode(marketAddress);
-    if (code === '0x' || code === '0x0') {
-      console.warn(`⚠️  No contract code at ${marketAddress} - skipping cache update`);
-      return;
-    }
-
-    const marketContract = new ethers.Contract(marketAddress, MARKET_ADMIN_ABI, provider);
-    const [phase, pools, winner, lockTime, resolveTime] = await Promise.all([
-      marketContract.phase() as Promise<bigint>,
-      marketContract.pools() as Promise<{ A: bigint; B: bigint } | [bigint, bigint]>,
-      marketContract.winner() as Promise<bigint>,
-      marketContract.lockTime() as Promise<bigint>,
-      marketContract.resolveTime() as Promise<bigint>,
-    ]);
+    previous = await UserInvestment.findOneAndUpdate(
+      { marketAddress, userAddress, chainId, ...notNewerThan(blockNumber) },
+      { ...update, lastSyncedAt: new Date(), syncedBlock: blockNumber },
+      { upsert: true }
+    ).lean();
+  } catch (error: any) {
+    // The upsert collided with a copy from a newer block
+    if (isDuplicateKey(error)) return false;
+    throw error;
+  }
+  investmentCache.set({ chainId, marketAddress, userAddress }, state);
 
-    const poolA = 'A' in pools ? pools.A : (pools as [bigint, bigint])[0];
-    const poolB = 'B' in pools ? pools.B : (pools as [bigint, bigint])[1];
+  if (
+    previous?.aClaims !== update.aClaims
+    || previous?.bClaims !== update.bClaims
+    || previous?.redeemed !== update.redeemed
+  ) {
+    publishUserUpdate(userAddress, 'investment', { marketAddress, ...update });
+  }
+  return true;
+}
 
-    await Market.findOneAndUpdate(
-      { marketAddress },
+export async function cacheUserBalance(userAddress: string, chainId: number, balance: bigint, blockNumber: number) {
+  let previous;
+  try {
+    previous = await UserBalance.findOneAndUpdate(
+      { userAddress, chainId, ...notNewerThan(blockNumber) },
       {
-        phase: Number(phase),
-        status: phaseToStatus(Number(phase)),
-        winner: Number(winner) > 0 ? Number(winner) : undefined,
-        poolA: poolA.toString(),
-        poolB: poolB.toString(),
-        lockTime: Number(lockTime),
-        resolveTime: Number(resolveTime),
+        balance: balance.toString(),
         lastSyncedAt: new Date(),
+        syncedBlock: blockNumber,
       },
-      { upsert: false }
-    );
+      { upsert: true }
+    ).lean();
   } catch (error: any) {
-    // Check for "missing revert data" or CALL_EXCEPTION - means contract doesn't exist or is invalid
-    if (error.code === 'CALL_EXCEPTION' || error.message?.includes('missing revert data')) {
-      console.warn(`⚠️  Invalid contract at ${marketAddress} - skipping cache update`);
-      return;
+    if (isDuplicateKey(error)) return false;
+    throw error;
+  }
+  balanceCache.set({ chainId, userAddress }, balance);
+
+  if (previous?.balance !== balance.toString()) {
+    publishUserUpdate(userAddress, 'balance', { balance: balance.toString() });
+  }
+  return true;
+}
+
+// Entity caches: in-memory LRU in front of the Mongo copies above, filled from the chain
+
+export const marketCache = createCache<{ chainId: number; marketAddress: string }, MarketChainState>({
+  entity: 'market',
+  key: ({ chainId, marketAddress }) => `${chainId}:${marketAddress.toLowerCase()}`,
+  load: async ({ chainId, marketAddress }) => {
+    const market = await Market.findOne({ marketAddress, chainId }).lean();
+    if (!market?.lastSyncedAt) return null;
+    return {
+      value: {
+        phase: market.phase ?? 0,
+        poolA: BigInt(market.poolA || '0'),
+        poolB: BigInt(market.poolB || '0'),
+        winner: market.winner ?? 0,
+        lockTime: market.lockTime,
+        resolveTime: market.resolveTime,
+      },
+      syncedAt: market.lastSyncedAt,
+    };
+  },
+  fetch: async ({ chainId, marketAddress }) => {
+    const provider = getProvider(chainId);
+    const blockNumber = await provider.getBlockNumber();
+    const [state] = await readMarketStates([marketAddress], provider, blockNumber);
+    return state && { value: state, blockNumber };
+  },
+  save: ({ chainId, marketAddress }, state, blockNumber) => cacheMarketState(marketAddress, state, chainId, blockNumber),
+});
+
+export const investmentCache = createCache<
+  { chainId: number; marketAddress: string; userAddress: string },
+  InvestmentChainState
+>({
+  entity: 'investment',
+  key: ({ chainId, marketAddress, userAddress }) => `${chainId}:${marketAddress.toLowerCase()}:${userAddress.toLowerCase()}`,
+  load: async ({ chainId, marketAddress, userAddress }) => {
+    const investment = await UserInvestment.findOne({ marketAddress, userAddress, chainId }).lean();
+    if (!investment) return null;
+    return {
+      value: { aClaims: BigInt(investment.aClaims), bClaims: BigInt(investment.bClaims), redeemed: investment.redeemed },
+      syncedAt: investment.lastSyncedAt,
+    };
+  },
+  fetch: async ({ chainId, marketAddress, userAddress }) => {
+    const provider = getProvider(chainId);
+    const blockNumber = await provider.getBlockNumber();
+    // No code means no market contract at the address
+    const code = await provider.getCode(marketAddress, blockNumber);
+    if (code === '0x' || code === '0x0') return null;
+    try {
+      const marketContract = new ethers.Contract(marketAddress, MARKET_ADMIN_ABI, provider);
+      const [aClaims, bClaims, redeemed] = await marketContract.a(userAddress, { blockTag: blockNumber }) as [bigint, bigint, boolean];
+      return { value: { aClaims, bClaims, redeemed }, blockNumber };
+    } catch (error: any) {
+      // "missing revert data" or CALL_EXCEPTION - the contract isn't a market
+      if (error.code === 'CALL_EXCEPTION' || error.message?.includes('missing revert data')) return null;
+      throw error;
+    }
+  },
+  save: ({ chainId, marketAddress, userAddress }, state, blockNumber) =>
+    cacheUserInvestment(marketAddress, userAddress, chainId, state, blockNumber),
+});
+
+export const balanceCache = createCache<{ chainId: number; userAddress: string }, bigint>({
+  entity: 'balance',
+  key: ({ chainId, userAddress }) => `${chainId}:${userAddress.toLowerCase()}`,
+  load: async ({ chainId, userAddress }) => {
+    const balance = await UserBalance.findOne({ userAddress, chainId }).lean();
+    if (!balance) return null;
+    return { value: BigInt(balance.balance), syncedAt: balance.lastSyncedAt };
+  },
+  // Null until a stake token is registered for the chain
+  fetch: async ({ chainId, userAddress }) => {
+    const stakeTokenContract = await Contract.findOne({ type: 'stakeToken', chainId }).lean();
+    if (!stakeTokenContract) return null;
+    const provider = getProvider(chainId);
+    const blockNumber = await provider.getBlockNumber();
+    const stakeToken = new ethers.Contract(stakeTokenContract.address, STAKE_TOKEN_ABI, provider);
+    return { value: await stakeToken.balanceOf(userAddress, { blockTag: blockNumber }) as bigint, blockNumber };
+  },
+  save: ({ chainId, userAddress }, balance, blockNumber) => cacheUserBalance(userAddress, chainId, balance, blockNumber),
+});
+
+// Forced refreshes (indexer, transaction handlers, POST /api/cache/update). They share in-flight
+// reads with the entity caches, so a route and the indexer never read the same entity twice.
+
+export async function syncMarketToCache(
+  marketAddress: string,
+  provider: ethers.JsonRpcProvider
+) {
+  try {
+    const state = await marketCache.refresh({ chainId: getProviderChainId(provider), marketAddress });
+    if (!state) {
+      console.warn(`⚠️  No valid market contract at ${marketAddress} - skipping cache update`);
     }
+  } catch (error: any) {
     console.error(`Error syncing market ${marketAddress} to cache:`, error.message);
   }
 }
@@ -56,31 +308,9 @@ export async function syncUserInvestmentToCache(
   provider: ethers.JsonRpcProvider
 ) {
   try {
-    // Check if contract has code first
-    const code = await provider.getCode(marketAddress);
-    if (code === '0x' || code === '0x0') {
-      return; // Silently skip invalid contracts
-    }
-
-    const marketContract = new ethers.Contract(marketAddress, MARKET_ADMIN_ABI, provider);
-    const accountInfo = await marketContract.a(userAddress) as Promise<[bigint, bigint, boolean]>;
-    const [aClaims, bClaims, redeemed] = await accountInfo;
-
-    await UserInvestment.findOneAndUpdate(
-      { marketAddress, userAddress },
-      {
-        aClaims: aClaims.toString(),
-        bClaims: bClaims.toString(),
-        redeemed,
-        lastSyncedAt: new Date(),
-      },
-      { upsert: true }
-    );
+    // Invalid contracts are silently skipped
+    await investmentCache.refresh({ chainId: getProviderChainId(provider), marketAddress, userAddress });
   } catch (error: any) {
-    // Check for "missing revert data" or CALL_EXCEPTION - means contract doesn't exist or is invalid
-    if (error.code === 'CALL_EXCEPTION' || error.message?.includes('missing revert data')) {
-      return; // Silently skip invalid contracts
-    }
     console.error(`Error syncing user investment ${userAddress} in ${marketAddress}:`, error.message);
   }
 }
@@ -90,72 +320,64 @@ export async function syncUserBalanceToCache(
   provider: ethers.JsonRpcProvider
 ) {
   try {
-    const contracts = await Contract.find();
-    const stakeTokenContract = contracts.find(c => c.type === 'stakeToken');
-    if (!stakeTokenContract) return;
-
-    const stakeToken = new ethers.Contract(stakeTokenContract.address, STAKE_TOKEN_ABI, provider);
-    const balance = await stakeToken.balanceOf(userAddress) as Promise<bigint>;
-
-    await UserBalance.findOneAndUpdate(
-      { userAddress },
-      {
-        balance: (await balance).toString(),
-        lastSyncedAt: new Date(),
-      },
-      { upsert: true }
-    );
+    await balanceCache.refresh({ chainId: getProviderChainId(provider), userAddress });
   } catch (error: any) {
     console.error(`Error syncing user balance ${userAddress}:`, error.message);
   }
 }
 
 export async function syncMarketPhases(provider: ethers.JsonRpcProvider) {
-  const markets = await Market.find();
-  console.log(`🔄 Syncing ${markets.length} markets...`);
-  
-  for (const market of markets) {
+  // Markets of archived rounds are kept for history but no longer synced
+  const chainId = getProviderChainId(provider);
+  const markets = await Market.find({ chainId, roundId: { $nin: await getArchivedRoundIds() } });
+  console.log(`🔄 Syncing ${markets.length} markets on chain ${chainId}...`);
+  if (markets.length === 0) return;
+  const started = Date.now();
+
+  let blockNumber: number;
+  let states: (MarketChainState | null)[];
+  try {
+    // All markets are read in one batch instead of one market at a time, pinned to one block
+    blockNumber = await provider.getBlockNumber();
+    states = await readMarketStates(markets.map(m => m.marketAddress), provider, blockNumber);
+  } catch (error: any) {
+    console.error(`  ❌ Failed to read market state:`, error.message || error);
+    syncMarketFailures.inc({ chain_id: chainId }, markets.length);
+    return;
+  }
+
+  const changes: Parameters<typeof onMarketsChanged>[1] = [];
+  const updates = markets.flatMap((market, i) => {
+    const state = states[i];
     const marketName = market.type === 'top10' ? market.projectName : `${market.projectA} vs ${market.projectB}`;
-    console.log(`  Checking: ${marketName} (${market.marketAddress})`);
-    
-    try {
-      // Check if contract has code
-      const code = await provider.getCode(market.marketAddress);
-      if (code === '0x' || code === '0x0') {
-        console.warn(`    ⚠️  No contract code at ${market.marketAddress} - market may not exist`);
-        continue;
-      }
-
-      const contract = new ethers.Contract(market.marketAddress, MARKET_ADMIN_ABI, provider);
-      const [phase, pools, winner] = await Promise.all([
-        contract.phase() as Promise<bigint>,
-        contract.pools() as Promise<{ A: bigint; B: bigint } | [bigint, bigint]>,
-        contract.winner() as Promise<bigint>,
-      ]);
-      
-      const poolA = 'A' in pools ? pools.A : (pools as [bigint, bigint])[0];
-      const poolB = 'B' in pools ? pools.B : (pools as [bigint, bigint])[1];
-      const phaseNum = Number(phase);
-      const status = phaseToStatus(phaseNum);
-      const winnerNum = Number(winner);
-      
-      // Always update cache fields
-      market.phase = phaseNum;
-      market.status = status;
-      market.poolA = poolA.toString();
-      market.poolB = poolB.toString();
-      market.winner = winnerNum > 0 ? winnerNum : undefined;
-      market.lastSyncedAt = new Date();
-      await market.save();
-      console.log(`    ✅ Synced: Phase=${phaseNum}, Pools A=${poolA}, B=${poolB}, Winner=${winnerNum || 'none'}`);
-    } catch (error: any) {
-      // Check for "missing revert data" or CALL_EXCEPTION - means contract doesn't exist or is invalid
-      if (error.code === 'CALL_EXCEPTION' || error.message?.includes('missing revert data')) {
-        console.warn(`    ⚠️  Invalid contract at ${market.marketAddress} - skipping`);
-        continue;
-      }
-      console.error(`    ❌ Failed to sync ${market.marketAddress}:`, error.message || error);
+    if (!state) {
+      console.warn(`  ⚠️  ${marketName}: no valid market contract at ${market.marketAddress} - skipping`);
+      syncMarketFailures.inc({ chain_id: chainId });
+      return [];
     }
+    if (market.syncedBlock != null && market.syncedBlock > blockNumber) {
+      // Already newer (indexer or a cache refresh got there first)
+      return [];
+    }
+    console.log(`  ✅ ${marketName}: Phase=${state.phase}, Pools A=${state.poolA}, B=${state.poolB}, Winner=${state.winner || 'none'}`);
+    const update = { ...marketStateUpdate(state), syncedBlock: blockNumber };
+    marketCache.set({ chainId, marketAddress: market.marketAddress }, state);
+    const changed = hasMarketChanged(market, update);
+    if (changed) {
+      changes.push({ marketAddress: market.marketAddress, previousPhase: market.phase, update });
+    }
+    return [{
+      updateOne: {
+        filter: { _id: market._id, ...notNewerThan(blockNumber) },
+        update: { $set: changed ? { ...update, lastActivityAt: new Date() } : update },
+      },
+    }];
+  });
+
+  if (updates.length > 0) {
+    await Market.bulkWrite(updates);
+    await onMarketsChanged(chainId, changes);
   }
+  syncDuration.observe({ chain_id: chainId }, (Date.now() - started) / 1000);
+  console.log(`✅ Synced ${updates.length}/${markets.length} markets`);
 }
-
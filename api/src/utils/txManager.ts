@@ -0,0 +1,407 @@
+import { ethers } from 'ethers';
+import { PendingTransaction, PendingTransactionDoc } from '../db';
+import { getChain, getDefaultChainId, getProviderChainId } from './chains';
+import { isRpcUnavailable } from './rpc';
+
+export type SignerName = 'faucet' | 'admin';
+
+export type TransactionHandler = (
+  tx: PendingTransactionDoc,
+  receipt: ethers.TransactionReceipt | null,
+  provider: ethers.JsonRpcProvider
+) => Promise<void>;
+
+// Keyed by "<chainId>:<signer>" and "<chainId>:<from>", so each chain has its own nonces and queue
+const wallets = new Map<string, ethers.Wallet>();
+const nextNonces = new Map<string, number>();
+const queues = new Map<string, Promise<unknown>>();
+const handlers = new Map<string, TransactionHandler>();
+
+function getTxManagerConfig() {
+  return {
+    monitorIntervalMs: parseInt(process.env.TX_MONITOR_INTERVAL_MS || '5000', 10),
+    stuckTimeoutMs: parseInt(process.env.TX_STUCK_TIMEOUT_MS || '60000', 10),
+    gasBumpPercent: BigInt(process.env.TX_GAS_BUMP_PERCENT || '20'),
+    maxReplacements: parseInt(process.env.TX_MAX_REPLACEMENTS || '5', 10),
+    finalTimeoutMs: parseInt(process.env.TX_FINAL_TIMEOUT_MS || '600000', 10),
+  };
+}
+
+// Per-chain keys from the chain config win over the global ones
+function getPrivateKey(name: SignerName, chainId: number): string | undefined {
+  const chain = getChain(chainId);
+  return name === 'faucet'
+    ? chain?.faucetPrivateKey || process.env.FAUCET_PRIVATE_KEY || process.env.PRIVATE_KEY
+    : chain?.adminPrivateKey || process.env.ADMIN_PRIVATE_KEY;
+}
+
+export function isSignerConfigured(name: SignerName, chainId = getDefaultChainId()) {
+  return !!getPrivateKey(name, chainId);
+}
+
+export function getSigner(name: SignerName, provider: ethers.JsonRpcProvider): ethers.Wallet {
+  const chainId = getProviderChainId(provider);
+  const key = `${chainId}:${name}`;
+  let wallet = wallets.get(key);
+  if (!wallet || wallet.provider !== provider) {
+    const privateKey = getPrivateKey(name, chainId);
+    if (!privateKey) {
+      throw new Error(`${name === 'faucet' ? 'FAUCET_PRIVATE_KEY' : 'ADMIN_PRIVATE_KEY'} not configured for chain ${chainId}`);
+    }
+    wallet = new ethers.Wallet(privateKey, provider);
+    wallets.set(key, wallet);
+  }
+  return wallet;
+}
+
+function queueKey(chainId: number, from: string) {
+  return `${chainId}:${from.toLowerCase()}`;
+}
+
+// Run follow-up work (cache updates etc.) when a transaction of this kind is mined or fails
+export function registerTransactionHandler(kind: string, handler: TransactionHandler) {
+  handlers.set(kind, handler);
+}
+
+// Run `task` after every task already queued for this signer on the same chain
+function runInQueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  queues.set(key, next);
+  return next;
+}
+
+async function allocateNonce(wallet: ethers.Wallet, chainId: number): Promise<number> {
+  const from = wallet.address.toLowerCase();
+  const key = queueKey(chainId, from);
+  let nonce = nextNonces.get(key);
+  if (nonce === undefined) {
+    // Start from whichever is higher: the node's pending count or our own records
+    const [chainNonce, lastTracked] = await Promise.all([
+      wallet.provider!.getTransactionCount(wallet.address, 'pending'),
+      PendingTransaction.findOne({ chainId, from, nonce: { $exists: true }, status: { $in: ['sent', 'mined'] } })
+        .sort({ nonce: -1 })
+        .select('nonce')
+        .lean(),
+    ]);
+    nonce = Math.max(chainNonce, (lastTracked?.nonce ?? -1) + 1);
+  }
+  nextNonces.set(key, nonce + 1);
+  return nonce;
+}
+
+function applyFees(tx: PendingTransactionDoc, request: ethers.TransactionLike<string>) {
+  tx.gasLimit = request.gasLimit?.toString();
+  tx.maxFeePerGas = request.maxFeePerGas?.toString();
+  tx.maxPriorityFeePerGas = request.maxPriorityFeePerGas?.toString();
+  tx.gasPrice = request.gasPrice?.toString();
+}
+
+// Nodes reject a transaction they already have; for a re-broadcast that is success
+function isAlreadyKnown(error: any) {
+  const message = String(error?.error?.message ?? error?.shortMessage ?? error?.message ?? '').toLowerCase();
+  return message.includes('already known') || message.includes('known transaction');
+}
+
+// Broadcast the stored signed transaction. Failures are left to the monitor, which broadcasts it
+// again while the node doesn't know the hash. Returns the node's error when it rejected the transaction.
+async function broadcast(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider): Promise<string | null> {
+  try {
+    await provider.broadcastTransaction(tx.rawTransaction!);
+    return null;
+  } catch (error: any) {
+    if (isAlreadyKnown(error)) return null;
+    const message = error.shortMessage || error.message || String(error);
+    console.warn(`⚠️  [${tx.kind}] Broadcast of ${tx.hash} failed, retrying on the next check:`, message);
+    // No endpoint answered, so nothing was rejected
+    return isRpcUnavailable(error) ? null : message;
+  }
+}
+
+// Sign, record the signed transaction as sent, then broadcast it. A crash after the save leaves
+// a transaction that the monitor broadcasts again, instead of a sent transaction nobody tracks.
+async function sendQueued(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider) {
+  const wallet = getSigner(tx.signer as SignerName, provider);
+  try {
+    const nonce = await allocateNonce(wallet, tx.chainId);
+    const request = await wallet.populateTransaction({
+      to: tx.to,
+      data: tx.data,
+      value: BigInt(tx.value),
+      nonce,
+    });
+    const rawTransaction = await wallet.signTransaction(request);
+    const hash = ethers.Transaction.from(rawTransaction).hash!;
+
+    tx.nonce = nonce;
+    tx.hash = hash;
+    tx.hashes = [hash];
+    tx.rawTransaction = rawTransaction;
+    tx.status = 'sent';
+    tx.sentAt = new Date();
+    applyFees(tx, request);
+    await tx.save();
+  } catch (error: any) {
+    // The nonce may not have been used - re-read it from the node next time
+    nextNonces.delete(queueKey(tx.chainId, wallet.address));
+    tx.status = 'failed';
+    tx.error = error.shortMessage || error.message || String(error);
+    await tx.save();
+    console.error(`❌ [${tx.kind}] Failed to send transaction ${tx.id}:`, tx.error);
+    await runHandler(tx, null, provider);
+    return;
+  }
+
+  await broadcast(tx, provider);
+  console.log(`📤 [${tx.kind}] Sent ${tx.hash} from ${tx.signer} (nonce ${tx.nonce})`);
+}
+
+// Queue a transaction for a signer on the provider's chain. Returns as soon as it is recorded;
+// sending happens in order per signer and chain with locally assigned nonces.
+export async function enqueueTransaction(
+  provider: ethers.JsonRpcProvider,
+  request: {
+    signer: SignerName;
+    kind: string;
+    to: string;
+    data: string;
+    value?: bigint;
+    context?: Record<string, unknown>;
+  }
+): Promise<PendingTransactionDoc> {
+  const wallet = getSigner(request.signer, provider);
+  const tx = await PendingTransaction.create({
+    signer: request.signer,
+    chainId: getProviderChainId(provider),
+    from: wallet.address,
+    kind: request.kind,
+    to: request.to,
+    data: request.data,
+    value: (request.value ?? 0n).toString(),
+    status: 'queued',
+    context: request.context,
+  });
+
+  runInQueue(queueKey(tx.chainId, tx.from), () => sendQueued(tx, provider)).catch(err =>
+    console.error(`❌ Transaction queue error for ${tx.id}:`, err.message || err)
+  );
+  return tx;
+}
+
+async function runHandler(
+  tx: PendingTransactionDoc,
+  receipt: ethers.TransactionReceipt | null,
+  provider: ethers.JsonRpcProvider
+) {
+  const handler = handlers.get(tx.kind);
+  if (!handler) return;
+  try {
+    await handler(tx, receipt, provider);
+  } catch (error: any) {
+    console.error(`❌ [${tx.kind}] Handler failed for ${tx.id}:`, error.message || error);
+  }
+}
+
+// Re-broadcast a stuck transaction with the same nonce and higher fees
+async function speedUp(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider) {
+  const { gasBumpPercent } = getTxManagerConfig();
+  const wallet = getSigner(tx.signer as SignerName, provider);
+  const bump = (value?: string) => (value ? (BigInt(value) * (100n + gasBumpPercent)) / 100n : undefined);
+  const feeData = await provider.getFeeData();
+  const max = (a?: bigint, b?: bigint | null) => (a === undefined ? b ?? undefined : b && b > a ? b : a);
+
+  const request: ethers.TransactionRequest = {
+    to: tx.to,
+    data: tx.data,
+    value: BigInt(tx.value),
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit ? BigInt(tx.gasLimit) : undefined,
+  };
+  if (tx.maxFeePerGas) {
+    request.maxFeePerGas = max(bump(tx.maxFeePerGas), feeData.maxFeePerGas);
+    request.maxPriorityFeePerGas = max(bump(tx.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas);
+  } else {
+    request.gasPrice = max(bump(tx.gasPrice), feeData.gasPrice);
+  }
+
+  const populated = await wallet.populateTransaction(request);
+  const rawTransaction = await wallet.signTransaction(populated);
+  const hash = ethers.Transaction.from(rawTransaction).hash!;
+  tx.hash = hash;
+  tx.hashes.push(hash);
+  tx.rawTransaction = rawTransaction;
+  tx.replacements += 1;
+  tx.sentAt = new Date();
+  applyFees(tx, populated);
+  await tx.save();
+  await broadcast(tx, provider);
+  console.log(`⛽ [${tx.kind}] Sped up nonce ${tx.nonce} with ${hash} (replacement ${tx.replacements})`);
+}
+
+// Give up on a transaction that can't be mined: the next send re-reads the nonce from the node, and
+// the handler settles whatever waited on it (faucet claims, scheduled jobs)
+async function abandon(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider, error: string) {
+  tx.status = 'failed';
+  tx.error = error;
+  await tx.save();
+  nextNonces.delete(queueKey(tx.chainId, tx.from));
+  console.error(`❌ [${tx.kind}] Gave up on ${tx.hash} (nonce ${tx.nonce}): ${error}`);
+  await runHandler(tx, null, provider);
+}
+
+// Receipt of whichever broadcast hash got mined, if any
+async function findReceipt(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider) {
+  for (const hash of [...tx.hashes].reverse()) {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) return { hash, receipt };
+  }
+  return null;
+}
+
+async function checkSentTransaction(tx: PendingTransactionDoc, provider: ethers.JsonRpcProvider) {
+  const { stuckTimeoutMs, maxReplacements, finalTimeoutMs } = getTxManagerConfig();
+
+  let mined = await findReceipt(tx, provider);
+  if (!mined && tx.nonce !== undefined) {
+    const confirmedNonce = await provider.getTransactionCount(tx.from, 'latest');
+    if (confirmedNonce > tx.nonce) {
+      // One of our hashes may have been mined after the receipts were checked
+      mined = await findReceipt(tx, provider);
+      if (!mined) {
+        // The nonce was used by something we didn't send
+        tx.status = 'failed';
+        tx.error = `Nonce ${tx.nonce} was used by another transaction`;
+        await tx.save();
+        console.error(`❌ [${tx.kind}] ${tx.error}`);
+        await runHandler(tx, null, provider);
+        return;
+      }
+    }
+  }
+
+  if (mined) {
+    const { hash, receipt } = mined;
+    tx.hash = hash;
+    tx.blockNumber = receipt.blockNumber;
+    tx.minedAt = new Date();
+    tx.status = receipt.status === 1 ? 'mined' : 'failed';
+    if (receipt.status !== 1) tx.error = 'Transaction reverted';
+    await tx.save();
+    console.log(`${receipt.status === 1 ? '✅' : '❌'} [${tx.kind}] ${hash} ${tx.status} in block ${receipt.blockNumber}`);
+    await runHandler(tx, receipt, provider);
+    return;
+  }
+
+  if (tx.sentAt && Date.now() - tx.sentAt.getTime() > stuckTimeoutMs && tx.replacements < maxReplacements) {
+    await runInQueue(queueKey(tx.chainId, tx.from), () => speedUp(tx, provider));
+    return;
+  }
+
+  // Never reached the node (broadcast failed, or the process stopped right after signing)
+  let rejected: string | null = null;
+  if (tx.rawTransaction && tx.hash && !(await provider.getTransaction(tx.hash))) {
+    rejected = await broadcast(tx, provider);
+  }
+
+  // Out of replacements: stop once the node rejects it or it has waited finalTimeoutMs since the last one
+  if (tx.replacements >= maxReplacements && tx.sentAt) {
+    const waited = Date.now() - tx.sentAt.getTime();
+    if (rejected || waited > finalTimeoutMs) {
+      const error = rejected
+        ? `Rejected after ${tx.replacements} replacements: ${rejected}`
+        : `Not mined ${Math.round(waited / 1000)}s after the last of ${tx.replacements} replacements`;
+      await runInQueue(queueKey(tx.chainId, tx.from), () => abandon(tx, provider, error));
+    }
+  }
+}
+
+export async function monitorTransactions(provider: ethers.JsonRpcProvider) {
+  const chainId = getProviderChainId(provider);
+  const sent = await PendingTransaction.find({ chainId, status: 'sent' }).sort({ nonce: 1 });
+  for (const tx of sent) {
+    try {
+      await checkSentTransaction(tx, provider);
+    } catch (error: any) {
+      console.error(`❌ Error checking transaction ${tx.id}:`, error.message || error);
+    }
+  }
+}
+
+// Queued or in-flight transaction of this kind for a market, if any
+export async function findInFlightTransaction(kind: string, marketAddress: string, chainId: number) {
+  return PendingTransaction.findOne({
+    kind,
+    chainId,
+    'context.marketAddress': marketAddress,
+    status: { $in: ['queued', 'sent'] },
+  }).lean();
+}
+
+// Resolves once the transaction is mined or failed, or after timeoutMs with its current state
+export async function waitForTransaction(id: string, timeoutMs = 5 * 60 * 1000): Promise<PendingTransactionDoc | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const tx = await PendingTransaction.findById(id);
+    if (!tx || tx.status === 'mined' || tx.status === 'failed' || Date.now() >= deadline) {
+      return tx;
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
+
+export function formatTransaction(tx: PendingTransactionDoc) {
+  return {
+    id: tx.id,
+    kind: tx.kind,
+    status: tx.status,
+    chainId: tx.chainId,
+    signer: tx.signer,
+    from: tx.from,
+    to: tx.to,
+    nonce: tx.nonce,
+    hash: tx.hash,
+    hashes: tx.hashes,
+    replacements: tx.replacements,
+    blockNumber: tx.blockNumber,
+    error: tx.error,
+    context: tx.context,
+    createdAt: tx.createdAt,
+    sentAt: tx.sentAt,
+    minedAt: tx.minedAt,
+  };
+}
+
+export async function startTransactionManager(provider: ethers.JsonRpcProvider) {
+  const { monitorIntervalMs } = getTxManagerConfig();
+  const chainId = getProviderChainId(provider);
+
+  // Transactions recorded but never broadcast before the last shutdown
+  const queued = await PendingTransaction.find({ chainId, status: 'queued' }).sort({ createdAt: 1 });
+  for (const tx of queued) {
+    runInQueue(queueKey(tx.chainId, tx.from), () => sendQueued(tx, provider)).catch(err =>
+      console.error(`❌ Transaction queue error for ${tx.id}:`, err.message || err)
+    );
+  }
+  const inFlight = await PendingTransaction.countDocuments({ chainId, status: 'sent' });
+  if (queued.length > 0 || inFlight > 0) {
+    console.log(`♻️  Resuming ${queued.length} queued and ${inFlight} in-flight transactions on chain ${chainId}`);
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await monitorTransactions(provider);
+    } catch (error: any) {
+      console.error(`❌ Transaction monitor error on chain ${chainId}:`, error.message || error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Broadcast in-flight transactions again right away in case they never reached the node
+  await tick();
+  setInterval(tick, monitorIntervalMs);
+  console.log(`📨 Transaction manager monitoring chain ${chainId} every ${monitorIntervalMs}ms`);
+}